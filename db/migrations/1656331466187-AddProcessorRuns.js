@@ -0,0 +1,17 @@
+module.exports = class AddProcessorRuns1656331466187 {
+  name = 'AddProcessorRuns1656331466187'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "processor_run" ("id" character varying NOT NULL, "started_at" TIMESTAMP WITH TIME ZONE NOT NULL, "finished_at" TIMESTAMP WITH TIME ZONE, "duration_ms" integer, "status" character varying(9) NOT NULL, "error" text, CONSTRAINT "PK_b51bdf0a47fcc05e47c5e9f0da9" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE TABLE "processor_step_result" ("id" character varying NOT NULL, "index" integer NOT NULL, "name" text NOT NULL, "started_at" TIMESTAMP WITH TIME ZONE NOT NULL, "finished_at" TIMESTAMP WITH TIME ZONE, "duration_ms" integer, "status" character varying(9) NOT NULL, "error" text, "run_id" character varying, CONSTRAINT "PK_79b7503586f1be6b2b89c81cb8c" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_73f0b075a684c4e83daa20625c" ON "processor_step_result" ("run_id") `)
+    await db.query(`ALTER TABLE "processor_step_result" ADD CONSTRAINT "FK_73f0b075a684c4e83daa20625c3" FOREIGN KEY ("run_id") REFERENCES "processor_run"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "processor_step_result" DROP CONSTRAINT "FK_73f0b075a684c4e83daa20625c3"`)
+    await db.query(`DROP INDEX "public"."IDX_73f0b075a684c4e83daa20625c"`)
+    await db.query(`DROP TABLE "processor_step_result"`)
+    await db.query(`DROP TABLE "processor_run"`)
+  }
+}
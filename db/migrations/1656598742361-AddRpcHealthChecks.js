@@ -0,0 +1,17 @@
+module.exports = class AddRpcHealthChecks1656598742361 {
+  name = 'AddRpcHealthChecks1656598742361'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "rpc_health_check" ("id" character varying NOT NULL, "chain_id" text, "evm_network_id" text, "url" text NOT NULL, "checked_at" TIMESTAMP WITH TIME ZONE NOT NULL, "is_healthy" boolean NOT NULL, "unhealthy_reason" text, "latency_ms" integer, "block_number" integer, CONSTRAINT "PK_f99a1d83f4feddac2f0365bfadb" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_6af889bab68e9d0005c95667f3" ON "rpc_health_check" ("chain_id") `)
+    await db.query(`CREATE INDEX "IDX_6997d801d63baadb876e3ba16f" ON "rpc_health_check" ("evm_network_id") `)
+    await db.query(`CREATE INDEX "IDX_875bdc273a27e8c0aad3915cc7" ON "rpc_health_check" ("checked_at") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_875bdc273a27e8c0aad3915cc7"`)
+    await db.query(`DROP INDEX "public"."IDX_6997d801d63baadb876e3ba16f"`)
+    await db.query(`DROP INDEX "public"."IDX_6af889bab68e9d0005c95667f3"`)
+    await db.query(`DROP TABLE "rpc_health_check"`)
+  }
+}
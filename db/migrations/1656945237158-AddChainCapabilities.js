@@ -0,0 +1,27 @@
+module.exports = class AddChainCapabilities1656945237158 {
+  name = 'AddChainCapabilities1656945237158'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "chain" ADD "pallets" text array`)
+    await db.query(`ALTER TABLE "chain" ADD "has_balances" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_orml_tokens" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_assets" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_evm" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_staking" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_nomination_pools" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "has_crowdloan" boolean`)
+    await db.query(`ALTER TABLE "chain" ADD "account_type" character varying(11)`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "account_type"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_crowdloan"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_nomination_pools"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_staking"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_evm"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_assets"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_orml_tokens"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "has_balances"`)
+    await db.query(`ALTER TABLE "chain" DROP COLUMN "pallets"`)
+  }
+}
@@ -0,0 +1,17 @@
+module.exports = class AddChainRuntimeVersions1657121853492 {
+  name = 'AddChainRuntimeVersions1657121853492'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "chain_runtime_version" ("id" character varying NOT NULL, "spec_name" text NOT NULL, "spec_version" integer NOT NULL, "impl_name" text, "impl_version" integer, "transaction_version" integer, "metadata_hash" text, "first_seen_at" TIMESTAMP WITH TIME ZONE NOT NULL, "chain_id" character varying, CONSTRAINT "PK_bf648db7bfcb1d34142c50f86a4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_9804b8abe5d2f66b69c0d7124b" ON "chain_runtime_version" ("chain_id") `)
+    await db.query(`CREATE INDEX "IDX_9cf47af66a43bd660f248945fa" ON "chain_runtime_version" ("first_seen_at") `)
+    await db.query(`ALTER TABLE "chain_runtime_version" ADD CONSTRAINT "FK_9804b8abe5d2f66b69c0d7124b6" FOREIGN KEY ("chain_id") REFERENCES "chain"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "chain_runtime_version" DROP CONSTRAINT "FK_9804b8abe5d2f66b69c0d7124b6"`)
+    await db.query(`DROP INDEX "public"."IDX_9cf47af66a43bd660f248945fa"`)
+    await db.query(`DROP INDEX "public"."IDX_9804b8abe5d2f66b69c0d7124b"`)
+    await db.query(`DROP TABLE "chain_runtime_version"`)
+  }
+}
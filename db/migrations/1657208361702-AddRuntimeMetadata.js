@@ -0,0 +1,21 @@
+module.exports = class AddRuntimeMetadata1657208361702 {
+  name = 'AddRuntimeMetadata1657208361702'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "runtime_metadata" ("id" character varying NOT NULL, "metadata" text NOT NULL, "first_seen_at" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_2c4f37a375f0d839f5e1d0766ac" PRIMARY KEY ("id"))`)
+    await db.query(`ALTER TABLE "chain_runtime_version" ADD "genesis_hash" text`)
+    await db.query(`ALTER TABLE "chain_runtime_version" ADD "metadata_id" character varying`)
+    await db.query(`CREATE INDEX "IDX_74d6a72072b1ef34ef71129e4a" ON "chain_runtime_version" ("genesis_hash") `)
+    await db.query(`CREATE INDEX "IDX_e044383d5ceea8c693dee5e27e" ON "chain_runtime_version" ("metadata_id") `)
+    await db.query(`ALTER TABLE "chain_runtime_version" ADD CONSTRAINT "FK_e044383d5ceea8c693dee5e27e8" FOREIGN KEY ("metadata_id") REFERENCES "runtime_metadata"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "chain_runtime_version" DROP CONSTRAINT "FK_e044383d5ceea8c693dee5e27e8"`)
+    await db.query(`DROP INDEX "public"."IDX_e044383d5ceea8c693dee5e27e"`)
+    await db.query(`DROP INDEX "public"."IDX_74d6a72072b1ef34ef71129e4a"`)
+    await db.query(`ALTER TABLE "chain_runtime_version" DROP COLUMN "metadata_id"`)
+    await db.query(`ALTER TABLE "chain_runtime_version" DROP COLUMN "genesis_hash"`)
+    await db.query(`DROP TABLE "runtime_metadata"`)
+  }
+}
@@ -0,0 +1,15 @@
+module.exports = class AddTokenRateSnapshots1657294812745 {
+  name = 'AddTokenRateSnapshots1657294812745'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "token_rate_snapshot" ("id" character varying NOT NULL, "token_id" text NOT NULL, "currency" text NOT NULL, "rate" numeric NOT NULL, "source" text, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_89d272a3bf1e36cca45bdceee00" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_85d9cf2302db54a64c71a4ed2e" ON "token_rate_snapshot" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_0d18a41dfc35d892c1f8afc793" ON "token_rate_snapshot" ("token_id", "currency", "timestamp") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_0d18a41dfc35d892c1f8afc793"`)
+    await db.query(`DROP INDEX "public"."IDX_85d9cf2302db54a64c71a4ed2e"`)
+    await db.query(`DROP TABLE "token_rate_snapshot"`)
+  }
+}
@@ -0,0 +1,11 @@
+module.exports = class AddChaindataIssues1657381465312 {
+  name = 'AddChaindataIssues1657381465312'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "chaindata_issue" ("id" character varying NOT NULL, "file" text NOT NULL, "index" integer NOT NULL, "entry_id" text, "field" text, "reason" text NOT NULL, CONSTRAINT "PK_1e09142ea94c643db2bdbae3e8b" PRIMARY KEY ("id"))`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "chaindata_issue"`)
+  }
+}
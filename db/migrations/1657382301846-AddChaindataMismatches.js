@@ -0,0 +1,11 @@
+module.exports = class AddChaindataMismatches1657382301846 {
+  name = 'AddChaindataMismatches1657382301846'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "chaindata_mismatch" ("id" character varying NOT NULL, "file" text NOT NULL, "entry_id" text NOT NULL, "field" text NOT NULL, "chaindata_value" text NOT NULL, "on_chain_value" text NOT NULL, CONSTRAINT "PK_62d8fe8df78aa96cb26fec406b6" PRIMARY KEY ("id"))`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "chaindata_mismatch"`)
+  }
+}
@@ -0,0 +1,65 @@
+import { WsProvider } from '@polkadot/api'
+import { Metadata, decorateStorage } from '@polkadot/types'
+import { u8aToString } from '@polkadot/util'
+
+import { fetchStorageEntries, getStructField } from './helpers'
+
+export type OnChainAsset = {
+  assetId: string
+  symbol: string
+  decimals: number
+  minBalance: string
+  isSufficient: boolean
+}
+
+/**
+ * Fetches all of the assets on a chain with `pallet-assets`, along with their metadata.
+ * Assets without a symbol, and assets which are in the process of being destroyed, are left out.
+ */
+export async function fetchAssets(socket: WsProvider, metadata: Metadata, timeout: number): Promise<OnChainAsset[]> {
+  const { registry } = metadata
+  const storage = decorateStorage(registry, metadata.asLatest, metadata.version)
+  if (!storage.assets?.asset || !storage.assets?.metadata) return []
+
+  const [details, metadataEntries] = await Promise.all([
+    fetchStorageEntries(socket, storage.assets.asset, timeout),
+    fetchStorageEntries(socket, storage.assets.metadata, timeout),
+  ])
+  const metadataById = new Map(metadataEntries.map(({ args: [assetId], value }) => [assetId.toString(), value]))
+
+  const assets: OnChainAsset[] = []
+  for (const { args, value: detail } of details) {
+    const assetId = args[0].toString()
+
+    // newer versions of pallet-assets keep destroyed assets around until all of their accounts are removed
+    if (getStructField(detail, 'status')?.toString() === 'Destroying') continue
+
+    const assetMetadata = metadataById.get(assetId)
+    const symbol = assetMetadata ? u8aToString(getStructField(assetMetadata, 'symbol')?.toU8a(true)).trim() : ''
+    if (!assetMetadata || symbol === '') continue
+
+    assets.push({
+      assetId,
+      symbol,
+      decimals: Number(getStructField(assetMetadata, 'decimals')?.toString() ?? 0),
+      minBalance: getStructField(detail, 'minBalance')?.toString() ?? '0',
+      isSufficient: getStructField(detail, 'isSufficient')?.toString() === 'true',
+    })
+  }
+
+  return assets
+}
+
+/**
+ * Fetches the ids of the assets which are registered as xcm assets in `pallet-asset-manager` (e.g. on moonbeam).
+ */
+export async function fetchXcAssetIds(socket: WsProvider, metadata: Metadata, timeout: number): Promise<Set<string>> {
+  const storage = decorateStorage(metadata.registry, metadata.asLatest, metadata.version)
+  if (!storage.assetManager?.assetIdType) return new Set()
+
+  const assetIdTypes = await fetchStorageEntries(socket, storage.assetManager.assetIdType, timeout)
+  return new Set(assetIdTypes.map(({ args: [assetId] }) => assetId.toString()))
+}
+
+// moonbeam exposes each xcm asset as an erc20 precompile, at 0xffffffff followed by the 128 bit asset id
+export const xcAssetContractAddress = (assetId: string) => `0xffffffff${BigInt(assetId).toString(16).padStart(32, '0')}`
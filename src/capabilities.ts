@@ -0,0 +1,69 @@
+import { Metadata, decorateStorage } from '@polkadot/types'
+
+import { AccountType, Chain } from './model'
+
+export type ChainCapabilities = Pick<
+  Chain,
+  | 'pallets'
+  | 'hasBalances'
+  | 'hasOrmlTokens'
+  | 'hasAssets'
+  | 'hasEvm'
+  | 'hasStaking'
+  | 'hasNominationPools'
+  | 'hasCrowdloan'
+  | 'accountType'
+>
+
+// a chain has a capability when its runtime includes any of these pallets
+const capabilityPallets = {
+  hasBalances: ['Balances'],
+  hasOrmlTokens: ['Tokens'],
+  hasAssets: ['Assets'],
+  hasEvm: ['EVM', 'Ethereum'],
+  hasStaking: ['Staking', 'ParachainStaking'],
+  hasNominationPools: ['NominationPools'],
+  hasCrowdloan: ['Crowdloan'],
+}
+
+/**
+ * Detects the pallets and capabilities of a chain from its runtime metadata.
+ */
+export function detectChainCapabilities(metadata: Metadata): ChainCapabilities {
+  const pallets = metadata.asLatest.pallets.map(({ name }) => name.toString())
+  const hasAnyPallet = (names: string[]) => names.some((name) => pallets.includes(name))
+
+  return {
+    pallets,
+    hasBalances: hasAnyPallet(capabilityPallets.hasBalances),
+    hasOrmlTokens: hasAnyPallet(capabilityPallets.hasOrmlTokens),
+    hasAssets: hasAnyPallet(capabilityPallets.hasAssets),
+    hasEvm: hasAnyPallet(capabilityPallets.hasEvm),
+    hasStaking: hasAnyPallet(capabilityPallets.hasStaking),
+    hasNominationPools: hasAnyPallet(capabilityPallets.hasNominationPools),
+    hasCrowdloan: hasAnyPallet(capabilityPallets.hasCrowdloan),
+    accountType: detectAccountType(metadata),
+  }
+}
+
+/**
+ * Detects the account id type of a chain from the key of its `System.Account` storage map.
+ */
+function detectAccountType(metadata: Metadata): AccountType | null {
+  const { registry } = metadata
+  const account = decorateStorage(registry, metadata.asLatest, metadata.version).system?.account
+  if (!account?.meta.type.isMap) return null
+
+  // the key type is e.g. `sp_core::crypto::AccountId32` or `account::AccountId20`
+  const keyType = registry.lookup.getSiType(account.meta.type.asMap.key)
+  const keyTypeName = keyType.path.length > 0 ? keyType.path[keyType.path.length - 1].toString() : null
+  if (keyTypeName === 'AccountId32') return AccountType.AccountId32
+  if (keyTypeName === 'AccountId20') return AccountType.AccountId20
+
+  // fall back to the size of the key type, for runtimes which use a differently named account id type
+  const keyLength = registry.createTypeUnsafe(registry.createLookupType(account.meta.type.asMap.key), []).encodedLength
+  if (keyLength === 32) return AccountType.AccountId32
+  if (keyLength === 20) return AccountType.AccountId20
+
+  return null
+}
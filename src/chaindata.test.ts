@@ -0,0 +1,55 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { chaindataSourceFromEnv, directoryChaindataSource } from './chaindata'
+
+describe('directoryChaindataSource', () => {
+  let directory: string
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'chaindata-'))
+    await writeFile(join(directory, 'chaindata.json'), JSON.stringify([{ id: 'polkadot' }]))
+  })
+  afterAll(() => rm(directory, { recursive: true, force: true }))
+
+  it('loads chaindata files from the directory', async () => {
+    const source = directoryChaindataSource(directory)
+
+    expect(source.description).toBe(directory)
+    expect(await source.fetchFile('chaindata.json')).toEqual([{ id: 'polkadot' }])
+  })
+
+  it('fails to load files which are not in the directory', async () => {
+    await expect(directoryChaindataSource(directory).fetchFile('tokens.json')).rejects.toThrow('ENOENT')
+  })
+})
+
+describe('chaindataSourceFromEnv', () => {
+  it('prefers CHAINDATA_DIR over CHAINDATA_URL and CHAINDATA_BRANCH', () => {
+    const source = chaindataSourceFromEnv({
+      CHAINDATA_DIR: '/tmp/chaindata',
+      CHAINDATA_URL: 'https://example.com/chaindata',
+      CHAINDATA_BRANCH: 'main',
+    })
+
+    expect(source.description).toBe('/tmp/chaindata')
+  })
+
+  it('prefers CHAINDATA_URL over CHAINDATA_BRANCH, without its trailing slashes', () => {
+    const source = chaindataSourceFromEnv({ CHAINDATA_URL: 'https://example.com/chaindata/', CHAINDATA_BRANCH: 'main' })
+
+    expect(source.description).toBe('https://example.com/chaindata')
+  })
+
+  it('loads CHAINDATA_BRANCH of CHAINDATA_REPO from github', () => {
+    const source = chaindataSourceFromEnv({ CHAINDATA_BRANCH: 'main', CHAINDATA_REPO: 'someone/chaindata' })
+
+    expect(source.description).toBe('https://raw.githubusercontent.com/someone/chaindata/main')
+  })
+
+  it('defaults to the talisman chaindata repo', () => {
+    expect(chaindataSourceFromEnv({}).description).toBe(
+      'https://raw.githubusercontent.com/TalismanSociety/chaindata/feat/split-entities'
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { readFile } from 'fs/promises'
+import { resolve } from 'path'
+
+import axios from 'axios'
+
+export const chaindataFiles = ['chaindata.json', 'testnets-chaindata.json', 'evm-networks.json', 'tokens.json'] as const
+export type ChaindataFile = (typeof chaindataFiles)[number]
+
+export type ChaindataSource = {
+  // human-readable description of where this source loads its files from, used for logging
+  description: string
+  fetchFile: (file: ChaindataFile) => Promise<unknown>
+}
+
+const defaultGithubRepo = 'TalismanSociety/chaindata'
+const defaultGithubBranch = 'feat/split-entities' // 'main'
+
+/**
+ * Loads chaindata files over http(s) from `${baseUrl}/${file}`.
+ */
+export function urlChaindataSource(baseUrl: string): ChaindataSource {
+  const trimmedBaseUrl = baseUrl.replace(/\/+$/, '')
+
+  return {
+    description: trimmedBaseUrl,
+    fetchFile: (file) => axios.get(`${trimmedBaseUrl}/${file}`).then((response) => response.data),
+  }
+}
+
+/**
+ * Loads chaindata files from a branch (or tag / commit) of a chaindata github repo.
+ */
+export function githubChaindataSource(branch = defaultGithubBranch, repo = defaultGithubRepo): ChaindataSource {
+  return urlChaindataSource(`https://raw.githubusercontent.com/${repo}/${branch}`)
+}
+
+/**
+ * Loads chaindata files from a directory on the local filesystem, e.g. a checkout of the chaindata repo.
+ */
+export function directoryChaindataSource(directory: string): ChaindataSource {
+  const absoluteDirectory = resolve(directory)
+
+  return {
+    description: absoluteDirectory,
+    fetchFile: async (file) => JSON.parse(await readFile(resolve(absoluteDirectory, file), 'utf8')),
+  }
+}
+
+/**
+ * Picks a chaindata source based on the environment.
+ *
+ * In order of precedence:
+ *   CHAINDATA_DIR    - load files from a local directory
+ *   CHAINDATA_URL    - load files from a url base
+ *   CHAINDATA_BRANCH - load files from a branch of the chaindata github repo (CHAINDATA_REPO to use a fork)
+ */
+export function chaindataSourceFromEnv(env: NodeJS.ProcessEnv = process.env): ChaindataSource {
+  if (env.CHAINDATA_DIR) return directoryChaindataSource(env.CHAINDATA_DIR)
+  if (env.CHAINDATA_URL) return urlChaindataSource(env.CHAINDATA_URL)
+
+  return githubChaindataSource(env.CHAINDATA_BRANCH || undefined, env.CHAINDATA_REPO || undefined)
+}
@@ -0,0 +1,41 @@
+import { WsProvider } from '@polkadot/api'
+import { Enum, Metadata, decorateStorage } from '@polkadot/types'
+import type { Codec, CodecClass } from '@polkadot/types/types'
+
+import { fetchStorageEntries, twox64Concat } from './helpers'
+
+export type TradingPair = {
+  // the orml CurrencyIds of the two tokens in the liquidity pool
+  currencyIds: [Codec, Codec]
+  // the orml stateKey of the CurrencyId::DexShare token which represents a share of the liquidity pool
+  stateKey: string
+}
+
+/**
+ * Fetches the enabled trading pairs of the acala dex pallet (e.g. on acala / karura).
+ */
+export async function fetchEnabledTradingPairs(
+  socket: WsProvider,
+  metadata: Metadata,
+  timeout: number
+): Promise<TradingPair[]> {
+  const { registry } = metadata
+  const storage = decorateStorage(registry, metadata.asLatest, metadata.version)
+  if (!storage.dex?.tradingPairStatuses) return []
+
+  const tradingPairStatuses = await fetchStorageEntries(socket, storage.dex.tradingPairStatuses, timeout)
+
+  return tradingPairStatuses
+    .filter(({ value }) => (value as Enum).type === 'Enabled')
+    .map(({ args: [tradingPair] }) => {
+      // TradingPair is a tuple struct of two CurrencyIds
+      const [currencyId0, currencyId1] = tradingPair as unknown as [Codec, Codec]
+
+      // the share token of a pair is CurrencyId::DexShare, with a DexShare for each of the two CurrencyIds
+      // the variants of DexShare have the same names as those of CurrencyId, so we can convert between them via json
+      const CurrencyId = currencyId0.constructor as CodecClass
+      const dexShareCurrencyId = new CurrencyId(registry, { dexShare: [currencyId0.toJSON(), currencyId1.toJSON()] })
+
+      return { currencyIds: [currencyId0, currencyId1], stateKey: twox64Concat(dexShareCurrencyId.toU8a()) }
+    })
+}
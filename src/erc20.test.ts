@@ -0,0 +1,75 @@
+import { decodeAbiString, decodeAbiUint8, erc20TokenMetadata } from './erc20'
+
+// abi-encodes a uint256 / a utf8 string as a 32 byte word, padded on the left / right
+const word = (value: number) => value.toString(16).padStart(64, '0')
+const text = (value: string) => Buffer.from(value, 'utf8').toString('hex').padEnd(64, '0')
+
+describe('decodeAbiString', () => {
+  it('decodes an abi-encoded string', () => {
+    expect(decodeAbiString(`0x${word(32)}${word(4)}${text('USDC')}`)).toBe('USDC')
+  })
+
+  it('decodes a bytes32 string, e.g. the symbol of MKR', () => {
+    expect(decodeAbiString(`0x${text('MKR')}`)).toBe('MKR')
+  })
+
+  it('decodes strings which are longer than a single word', () => {
+    const name = 'A token with a name which is longer than thirty-two bytes'
+    const data = Buffer.from(name, 'utf8').toString('hex').padEnd(128, '0')
+
+    expect(decodeAbiString(`0x${word(32)}${word(name.length)}${data}`)).toBe(name)
+  })
+
+  it('returns null for empty strings', () => {
+    expect(decodeAbiString(`0x${word(32)}${word(0)}`)).toBeNull()
+    expect(decodeAbiString(`0x${word(0)}`)).toBeNull()
+  })
+
+  it('returns null when the offset or length points past the end of the result', () => {
+    expect(decodeAbiString(`0x${word(96)}${word(4)}${text('USDC')}`)).toBeNull()
+    expect(decodeAbiString(`0x${word(32)}${word(33)}${text('USDC')}`)).toBeNull()
+    expect(decodeAbiString(`0x${'f'.repeat(64)}${word(4)}${text('USDC')}`)).toBeNull()
+  })
+
+  it('returns null for results which are not abi-encoded strings', () => {
+    expect(decodeAbiString(null)).toBeNull()
+    expect(decodeAbiString('USDC')).toBeNull()
+    expect(decodeAbiString('0x')).toBeNull()
+    expect(decodeAbiString(`0x${word(32)}`.slice(0, 40))).toBeNull()
+  })
+})
+
+describe('decodeAbiUint8', () => {
+  it('decodes an abi-encoded uint8', () => {
+    expect(decodeAbiUint8(`0x${word(18)}`)).toBe(18)
+    expect(decodeAbiUint8(`0x${word(0)}`)).toBe(0)
+  })
+
+  it('returns null for values which are out of range or not abi-encoded', () => {
+    expect(decodeAbiUint8(`0x${word(256)}`)).toBeNull()
+    expect(decodeAbiUint8('0x')).toBeNull()
+    expect(decodeAbiUint8('18')).toBeNull()
+    expect(decodeAbiUint8(undefined)).toBeNull()
+  })
+})
+
+describe('erc20TokenMetadata', () => {
+  const erc20 = { id: '1284-erc20-0xabcd', contractAddress: '0xabcd', evmNetworkId: 1284, symbol: 'USDC', decimals: 18 }
+  const onChain = { name: 'USD Coin', symbol: 'USDC', decimals: 6 }
+
+  it('prefers overrides over on-chain values over chaindata values', () => {
+    expect(erc20TokenMetadata({ ...erc20, overrides: { symbol: 'USDC.wh' } }, onChain, {})).toEqual({
+      name: 'USD Coin',
+      symbol: 'USDC.wh',
+      decimals: 6,
+    })
+  })
+
+  it('keeps the stored values when the contract could not be reached', () => {
+    expect(erc20TokenMetadata(erc20, null, onChain)).toEqual(onChain)
+  })
+
+  it('falls back to the chaindata values for new tokens whose contract could not be reached', () => {
+    expect(erc20TokenMetadata(erc20, null, {})).toEqual({ name: null, symbol: 'USDC', decimals: 18 })
+  })
+})
@@ -0,0 +1,99 @@
+import { hexToU8a, u8aToBn, u8aToString } from '@polkadot/util'
+
+import { sendEthereumRpcRequest } from './helpers'
+import { GithubToken } from './types'
+
+// the first 4 bytes of the keccak256 hash of each erc20 method signature
+const erc20Selectors = {
+  name: '0x06fdde03', // name()
+  symbol: '0x95d89b41', // symbol()
+  decimals: '0x313ce567', // decimals()
+}
+
+export type Erc20Metadata = {
+  name: string | null
+  symbol: string | null
+  decimals: number | null
+}
+
+/**
+ * Fetches the name, symbol and decimals of an erc20 contract.
+ * Tries each of `rpcUrls` in turn until one of them responds.
+ */
+export async function fetchErc20Metadata(
+  rpcUrls: string[],
+  contractAddress: string,
+  timeout: number
+): Promise<Erc20Metadata> {
+  let lastError: unknown = 'no healthy rpcs'
+  for (const url of rpcUrls) {
+    try {
+      const call = (data: string) =>
+        sendEthereumRpcRequest(url, 'eth_call', [{ to: contractAddress, data }, 'latest'], timeout)
+
+      // name is optional in the erc20 standard, so we don't fail when a contract doesn't implement it
+      const [name, symbol, decimals] = await Promise.all([
+        call(erc20Selectors.name).catch(() => null),
+        call(erc20Selectors.symbol),
+        call(erc20Selectors.decimals),
+      ])
+
+      return { name: decodeAbiString(name), symbol: decodeAbiString(symbol), decimals: decodeAbiUint8(decimals) }
+    } catch (error) {
+      lastError = error
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Picks the name, symbol and decimals of an erc20 token.
+ *
+ * Explicit overrides take precedence over on-chain values, which take precedence over chaindata values.
+ * When the contract couldn't be reached (`onChain` is null), the `stored` values (i.e. the on-chain values from a
+ * previous run) are kept, so that an rpc outage doesn't bring back the chaindata values.
+ */
+export function erc20TokenMetadata(
+  erc20: GithubToken,
+  onChain: Erc20Metadata | null,
+  stored: { name?: string | null; symbol?: string | null; decimals?: number | null }
+) {
+  const { overrides = {} } = erc20
+
+  return {
+    name: overrides.name ?? onChain?.name ?? stored.name ?? null,
+    symbol: overrides.symbol ?? onChain?.symbol ?? stored.symbol ?? erc20.symbol,
+    decimals: overrides.decimals ?? onChain?.decimals ?? stored.decimals ?? erc20.decimals,
+  }
+}
+
+/**
+ * Decodes an abi-encoded `string` return value.
+ * Also supports `bytes32` return values, which some older tokens (e.g. MKR) use for their name and symbol.
+ */
+export function decodeAbiString(result: unknown): string | null {
+  if (typeof result !== 'string' || !result.startsWith('0x')) return null
+
+  const bytes = hexToU8a(result)
+  if (bytes.length === 32) return u8aToString(bytes).replace(/\0+$/, '') || null
+  if (bytes.length < 64) return null
+
+  const offset = u8aToBn(bytes.subarray(0, 32), { isLe: false })
+  if (offset.gtn(bytes.length - 32)) return null
+  const length = u8aToBn(bytes.subarray(offset.toNumber(), offset.toNumber() + 32), { isLe: false })
+  if (length.gtn(bytes.length - offset.toNumber() - 32)) return null
+
+  const start = offset.toNumber() + 32
+  return u8aToString(bytes.subarray(start, start + length.toNumber())) || null
+}
+
+/**
+ * Decodes an abi-encoded `uint8` return value.
+ */
+export function decodeAbiUint8(result: unknown): number | null {
+  if (typeof result !== 'string' || !result.startsWith('0x') || result.length < 3) return null
+
+  const value = parseInt(result, 16)
+  return Number.isInteger(value) && value >= 0 && value <= 255 ? value : null
+}
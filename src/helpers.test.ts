@@ -0,0 +1,100 @@
+import { createExclusiveRunner, refuseMassDeletion } from './helpers'
+
+describe('refuseMassDeletion', () => {
+  const limits = { maxRatio: 0.2, minCount: 5 }
+
+  it('allows deleting up to the max ratio of the stored entities', () => {
+    expect(refuseMassDeletion('chains', 100, 20, limits)).toBeNull()
+  })
+
+  it('refuses to delete more than the max ratio of the stored entities', () => {
+    expect(refuseMassDeletion('chains', 100, 21, limits)).toBe(
+      'Refusing to delete 21 of 100 chains (21% > 20%), keeping previous data'
+    )
+  })
+
+  it('refuses to delete every stored entity, e.g. when chaindata was fetched empty', () => {
+    expect(refuseMassDeletion('chains', 100, 100, limits)).not.toBeNull()
+  })
+
+  it('allows deleting fewer than the min count of entities from a small set', () => {
+    expect(refuseMassDeletion('erc20 tokens', 4, 1, limits)).toBeNull()
+    expect(refuseMassDeletion('erc20 tokens', 1, 1, limits)).toBeNull()
+    expect(refuseMassDeletion('erc20 tokens', 4, 4, limits)).toBeNull()
+  })
+
+  it('refuses to delete the min count of entities or more when they exceed the max ratio', () => {
+    expect(refuseMassDeletion('erc20 tokens', 6, 5, limits)).toBe(
+      'Refusing to delete 5 of 6 erc20 tokens (83% > 20%), keeping previous data'
+    )
+  })
+
+  it('allows deletions when nothing is deleted or nothing is stored', () => {
+    expect(refuseMassDeletion('chains', 10, 0, { maxRatio: 0, minCount: 0 })).toBeNull()
+    expect(refuseMassDeletion('chains', 0, 0, { maxRatio: 0, minCount: 0 })).toBeNull()
+  })
+})
+
+describe('createExclusiveRunner', () => {
+  // an execution which runs until `finish` is called
+  const createExecution = () => {
+    const finishes: Array<() => void> = []
+    const execute = jest.fn(() => new Promise<void>((resolve) => finishes.push(resolve)))
+    const finish = async () => {
+      finishes.shift()?.()
+      // let the runner react to the finished execution
+      await new Promise((resolve) => setImmediate(resolve))
+    }
+
+    return { execute, finish }
+  }
+
+  it('runs one execution per trigger while idle', async () => {
+    const { execute, finish } = createExecution()
+    const runner = createExclusiveRunner(execute)
+
+    runner.trigger()
+    await finish()
+    runner.trigger()
+    await finish()
+
+    expect(execute).toHaveBeenCalledTimes(2)
+  })
+
+  it('coalesces triggers which arrive during an execution into a single execution afterwards', async () => {
+    const { execute, finish } = createExecution()
+    const runner = createExclusiveRunner(execute)
+
+    runner.trigger()
+    runner.trigger()
+    runner.trigger()
+    runner.trigger()
+    expect(execute).toHaveBeenCalledTimes(1)
+
+    await finish()
+    expect(execute).toHaveBeenCalledTimes(2)
+
+    await finish()
+    expect(execute).toHaveBeenCalledTimes(2)
+  })
+
+  it('waits for the running execution on stop, and ignores pending and later triggers', async () => {
+    const { execute, finish } = createExecution()
+    const runner = createExclusiveRunner(execute)
+
+    runner.trigger()
+    runner.trigger()
+
+    let isStopped = false
+    const stopping = runner.stop().then(() => (isStopped = true))
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(isStopped).toBe(false)
+
+    await finish()
+    await stopping
+    expect(isStopped).toBe(true)
+
+    runner.trigger()
+    expect(execute).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,10 +1,14 @@
 import { WsProvider } from '@polkadot/api'
-import { TypeRegistry, createType } from '@polkadot/types'
-import { u8aConcat, u8aToHex, u8aToU8a } from '@polkadot/util'
+import { StorageKey, TypeRegistry, createType } from '@polkadot/types'
+import type { StorageEntry } from '@polkadot/types/primitive/types'
+import type { Codec } from '@polkadot/types/types'
+import { hexToU8a, u8aConcat, u8aToHex, u8aToU8a } from '@polkadot/util'
 import { xxhashAsU8a } from '@polkadot/util-crypto'
+import axios from 'axios'
 import { EntityManager, FindOptionsWhere } from 'typeorm'
 
 import {
+  AssetsToken,
   Chain,
   Erc20Token,
   EvmNetwork,
@@ -16,6 +20,7 @@ import {
   Token,
   XcToken,
 } from './model'
+import { GithubChainOverrides, GithubToken } from './types'
 
 export async function getOrCreate<T extends { id: string }>(
   store: EntityManager,
@@ -90,17 +95,94 @@ export async function saveToken(store: EntityManager, token: SquidImplementation
 
 export const nativeTokenId = (chainId: Chain['id'], tokenSymbol: NativeToken['symbol']) =>
   `${chainId}-native-${tokenSymbol}`.toLowerCase()
-export const ormlTokenId = (chainId: Chain['id'], tokenSymbol: OrmlToken['symbol']) =>
-  `${chainId}-orml-${tokenSymbol}`.toLowerCase()
-export const liquidCrowdloanTokenId = (chainId: Chain['id'], tokenSymbol: LiquidCrowdloanToken['symbol']) =>
-  `${chainId}-lc-${tokenSymbol}`.toLowerCase()
-export const liquidityProviderTokenId = (chainId: Chain['id'], tokenSymbol: LiquidityProviderToken['symbol']) =>
-  `${chainId}-lp-${tokenSymbol}`.toLowerCase()
-export const xcTokenId = (chainId: Chain['id'], tokenSymbol: XcToken['symbol']) =>
-  `${chainId}-xc-${tokenSymbol}`.toLowerCase()
+export const ormlTokenId = (
+  chainId: Chain['id'],
+  tokenSymbol: OrmlToken['symbol'],
+  currencyIdKey: string | null = null
+) => `${chainId}-orml-${currencyIdKey === null ? '' : `${currencyIdKey}-`}${tokenSymbol}`.toLowerCase()
+export const assetsTokenId = (
+  chainId: Chain['id'],
+  assetId: AssetsToken['assetId'],
+  tokenSymbol: AssetsToken['symbol']
+) => `${chainId}-assets-${assetId}-${tokenSymbol}`.toLowerCase()
+export const liquidCrowdloanTokenId = (
+  chainId: Chain['id'],
+  leaseId: number,
+  tokenSymbol: LiquidCrowdloanToken['symbol']
+) => `${chainId}-lc-${leaseId}-${tokenSymbol}`.toLowerCase()
+export const liquidityProviderTokenId = (
+  chainId: Chain['id'],
+  tokenSymbol: LiquidityProviderToken['symbol'],
+  stateKey: LiquidityProviderToken['stateKey'] = null
+) => `${chainId}-lp-${stateKey ? `${stateKey}-` : ''}${tokenSymbol}`.toLowerCase()
+export const xcTokenId = (chainId: Chain['id'], assetId: XcToken['assetId'], tokenSymbol: XcToken['symbol']) =>
+  `${chainId}-xc-${assetId}-${tokenSymbol}`.toLowerCase()
 export const erc20TokenId = (evmNetworkId: EvmNetwork['id'], tokenContractAddress: Erc20Token['contractAddress']) =>
   `${evmNetworkId}-erc20-${tokenContractAddress}`.toLowerCase()
 
+// chaindata tokens are identified by their id, or by their evm network and contract address for preconfigured erc20s
+export const githubTokenId = (token: GithubToken) =>
+  typeof token.id === 'string'
+    ? token.id
+    : typeof token.contractAddress === 'string'
+    ? erc20TokenId(String(token.evmNetworkId), token.contractAddress)
+    : undefined
+
+// sockets which are currently connected, so that we can close them all on shutdown
+const openSockets = new Set<WsProvider>()
+
+export function connectToRpc(url: string, timeout: number): WsProvider {
+  const autoConnectMs = 500
+  const socket = new WsProvider(
+    url,
+    autoConnectMs,
+    {
+      // our extension will send this header with every request
+      // some RPCs reject this header, in which case we want to set isHealthy to false
+      Origin: 'chrome-extension://abpofhpcakjhnpklgodncneklaobppdc',
+    },
+    // doesn't matter what this is as long as it's a bit larger than timeout
+    // if it's not set then `new WsProvider` will throw an uncatchable error after 60s
+    timeout * 99
+  )
+  openSockets.add(socket)
+
+  return socket
+}
+
+export async function disconnectFromRpc(socket: WsProvider) {
+  openSockets.delete(socket)
+  await socket.disconnect()
+}
+
+export async function disconnectFromAllRpcs() {
+  await Promise.allSettled([...openSockets].map(disconnectFromRpc))
+}
+
+/**
+ * Connects to each of the healthy `rpcs` in turn until `callback` succeeds, then returns the result of `callback`.
+ * Throws the last error if `callback` fails on every healthy rpc.
+ */
+export async function withHealthyRpc<T>(
+  rpcs: Array<{ url: string; isHealthy: boolean }>,
+  timeout: number,
+  callback: (socket: WsProvider) => Promise<T>
+): Promise<T> {
+  let lastError: unknown = 'no healthy rpcs'
+  for (const { url } of rpcs.filter(({ isHealthy }) => isHealthy)) {
+    const socket = connectToRpc(url, timeout)
+    try {
+      return await callback(socket)
+    } catch (error) {
+      lastError = error
+    } finally {
+      await disconnectFromRpc(socket).catch(() => {})
+    }
+  }
+
+  throw lastError
+}
+
 export function sendWithTimeout(socket: WsProvider, requests: Array<[string, any?]>, timeout: number): Promise<any[]> {
   return new Promise(async (_resolve, _reject) => {
     let done = false
@@ -115,7 +197,7 @@ export function sendWithTimeout(socket: WsProvider, requests: Array<[string, any
 
     try {
       if (socket === null) return reject('no socket')
-      socket.on('error', () => reject('socket error'))
+      socket.on('error', (error) => reject(error?.message ? `socket error: ${error.message}` : 'socket error'))
       socket.on('disconnected', () => reject('socket closed'))
 
       setTimeout(() => !done && reject('socket timeout reached'), timeout)
@@ -129,6 +211,72 @@ export function sendWithTimeout(socket: WsProvider, requests: Array<[string, any
   })
 }
 
+export type MassDeletionLimits = {
+  // refuse to delete more than this fraction of the stored entities
+  maxRatio: number
+  // deleting fewer than this many entities is always allowed, as a ratio doesn't work for small sets of entities
+  // e.g. with a max ratio of 0.2, a set of 4 entities could otherwise never have one of its entities deleted
+  minCount: number
+}
+
+/**
+ * Protects against wiping the db when chaindata is fetched as an empty or truncated file.
+ *
+ * Returns a reason to refuse the deletion when `limits.minCount` or more entities, and more than `limits.maxRatio`
+ * of the stored entities, would be deleted. Returns null if the deletion can go ahead.
+ */
+export function refuseMassDeletion(
+  entityName: string,
+  storedCount: number,
+  deletedCount: number,
+  limits: MassDeletionLimits
+): string | null {
+  if (deletedCount < limits.minCount || storedCount === 0) return null
+  if (deletedCount / storedCount <= limits.maxRatio) return null
+
+  const deletedPercent = Math.round((deletedCount / storedCount) * 100)
+  const maxDeletePercent = Math.round(limits.maxRatio * 100)
+  return `Refusing to delete ${deletedCount} of ${storedCount} ${entityName} (${deletedPercent}% > ${maxDeletePercent}%), keeping previous data`
+}
+
+export async function sendEthereumRpcRequest(
+  url: string,
+  method: string,
+  params: unknown[],
+  timeout: number
+): Promise<any> {
+  const response = await axios.post(url, JSON.stringify({ method, params, id: 1, jsonrpc: '2.0' }), {
+    headers: {
+      'Content-Type': 'application/json',
+      // our extension will send this header with every request
+      // some RPCs reject this header, in which case we want to set isHealthy to false
+      Origin: 'chrome-extension://abpofhpcakjhnpklgodncneklaobppdc',
+    },
+    timeout,
+  })
+
+  // check response status
+  if (response.status !== 200) throw new Error(`Non-200 response status (${response.status}) from ethereum rpc`)
+  if (response.data?.error) throw new Error(`Error response to ${method}: ${JSON.stringify(response.data.error)}`)
+
+  return response.data?.result
+}
+
+/**
+ * Turns an error thrown while checking the health of an rpc into a short, human-readable reason.
+ */
+export function rpcUnhealthyReason(error: unknown): string {
+  const message = errorMessage(error)
+
+  if (/timeout/i.test(message)) return 'timeout'
+  if (/\b(401|403)\b/.test(message)) return 'origin rejected'
+  if (/socket closed/i.test(message)) return 'connection closed'
+  if (/socket error|ECONNREFUSED|ENOTFOUND|ECONNRESET|EAI_AGAIN/i.test(message)) return 'connection error'
+
+  const maxLength = 100
+  return message.length > maxLength ? `${message.slice(0, maxLength - 3)}...` : message
+}
+
 export function sortChainsAndNetworks(chains: Chain[], evmNetworks: EvmNetwork[]): Array<Chain | EvmNetwork> {
   return [...chains, ...evmNetworks]
     .sort((a, b) => {
@@ -161,30 +309,133 @@ export function sortChainsAndNetworks(chains: Chain[], evmNetworks: EvmNetwork[]
     })
 }
 
-export function tokenSymbolWorkarounds(chainId: string):
-  | {
-      symbols: string[]
-      decimals: number[]
-      stateKeys: { [key: string]: `0x${string}` }
+// built-in overrides for chains which need them, only used when the chaindata source has no overrides for the chain
+export const defaultChainOverrides: Record<string, GithubChainOverrides> = {
+  mangata: {
+    tokenSymbols: ['MGX'],
+    tokenDecimals: [18],
+    ormlTokens: { MGX: { type: 'u32', value: 0 } },
+  },
+  gm: {
+    tokenSymbols: ['FREN', 'GM', 'GN'],
+    tokenDecimals: [18, 18, 18],
+    // FREN is a native token, not an orml token
+    nativeTokenSymbol: 'FREN',
+    ormlTokens: { GM: { type: 'u32', value: 1 }, GN: { type: 'u32', value: 2 } },
+  },
+}
+
+/**
+ * Computes the orml `stateKey` of a token from its CurrencyId, e.g. `ormlStateKey('u32', 1)`.
+ * Throws if `value` can't be encoded as `type`.
+ */
+export const ormlStateKey = (type: string, value: unknown) =>
+  twox64Concat(createType(new TypeRegistry(), type, value).toU8a())
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : typeof error === 'string' ? error : JSON.stringify(error)
+
+/**
+ * Makes sure that only one execution of `execute` runs at a time.
+ *
+ * Triggers which arrive while an execution is running are coalesced into a single execution,
+ * which starts once the running execution has finished.
+ *
+ * `execute` is expected to handle its own errors.
+ */
+export function createExclusiveRunner(execute: () => Promise<void>) {
+  let running: Promise<void> | null = null
+  let isPending = false
+  let isStopped = false
+
+  const trigger = (): void => {
+    if (isStopped) return
+    if (running !== null) {
+      isPending = true
+      return
     }
-  | undefined {
-  return {
-    mangata: {
-      symbols: ['MGX'],
-      decimals: [18],
-      stateKeys: { MGX: twox64Concat(createType(new TypeRegistry(), 'u32', '0').toU8a()) },
-    },
-    gm: {
-      symbols: ['FREN', 'GM', 'GN'],
-      decimals: [18, 18, 18],
-      stateKeys: {
-        // Use native for FREN, not orml
-        // FREN: twox64Concat(createType(new TypeRegistry(), 'u32', '0').toU8a()),
-        GM: twox64Concat(createType(new TypeRegistry(), 'u32', '1').toU8a()),
-        GN: twox64Concat(createType(new TypeRegistry(), 'u32', '2').toU8a()),
-      },
-    },
-  }[chainId]
+
+    running = execute().finally(() => {
+      running = null
+      if (!isPending) return
+
+      isPending = false
+      trigger()
+    })
+  }
+
+  // stop accepting triggers, then wait for the running execution (if any) to finish
+  const stop = async () => {
+    isStopped = true
+    isPending = false
+    await running
+  }
+
+  return { trigger, stop }
+}
+
+/**
+ * Fetches the raw key and value of every entry in the storage map under `prefix`, one page of keys at a time.
+ */
+export async function fetchStorageMapEntries(
+  socket: WsProvider,
+  prefix: string,
+  timeout: number
+): Promise<Array<[key: string, value: string]>> {
+  const pageSize = 1000
+  const entries: Array<[key: string, value: string]> = []
+
+  let startKey: string | null = null
+  while (true) {
+    const params: unknown[] = startKey === null ? [prefix, pageSize] : [prefix, pageSize, startKey]
+    const [keys]: string[][] = await sendWithTimeout(socket, [['state_getKeysPaged', params]], timeout)
+    if (keys.length < 1) break
+
+    const [changeSets]: Array<Array<{ changes: Array<[string, string | null]> }>> = await sendWithTimeout(
+      socket,
+      [['state_queryStorageAt', [keys]]],
+      timeout
+    )
+    for (const [key, value] of changeSets.flatMap(({ changes }) => changes)) {
+      if (value !== null) entries.push([key, value])
+    }
+
+    if (keys.length < pageSize) break
+    startKey = keys[keys.length - 1]
+  }
+
+  return entries
+}
+
+/**
+ * Fetches every entry in the storage map `entry`, and decodes its key arguments and value using the chain's metadata.
+ */
+export async function fetchStorageEntries(
+  socket: WsProvider,
+  entry: StorageEntry,
+  timeout: number
+): Promise<Array<{ args: Codec[]; value: Codec }>> {
+  const { registry } = entry.meta
+  if (!entry.meta.type.isMap) return []
+  const valueType = registry.createLookupType(entry.meta.type.asMap.value)
+
+  const rawEntries = await fetchStorageMapEntries(socket, u8aToHex(entry.keyPrefix()), timeout)
+
+  return rawEntries.map(([key, value]) => ({
+    args: new StorageKey(registry, key).setMeta(entry.meta, entry.section, entry.method).args,
+    value: registry.createTypeUnsafe<Codec>(valueType, [hexToU8a(value)]),
+  }))
+}
+
+export const getStructField = (codec: Codec, field: string): Codec | undefined =>
+  (codec as Codec & { get?: (field: string) => Codec | undefined }).get?.(field)
+
+export function storageKey(
+  palletName: string,
+  storageName: string,
+  ...hashedKeys: Array<Uint8Array | `0x${string}`>
+): `0x${string}` {
+  return u8aToHex(u8aConcat(xxhashAsU8a(palletName, 128), xxhashAsU8a(storageName, 128), ...hashedKeys))
 }
 
 const bitLength = 64
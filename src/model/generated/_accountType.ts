@@ -0,0 +1,4 @@
+export enum AccountType {
+  AccountId32 = "AccountId32",
+  AccountId20 = "AccountId20",
+}
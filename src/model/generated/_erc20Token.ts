@@ -13,6 +13,7 @@ export class Erc20Token {
   private _coingeckoId!: string | undefined | null
   private _rates!: TokenRates | undefined | null
   private _contractAddress!: string | undefined | null
+  private _name!: string | undefined | null
   private _chain!: string | undefined | null
   private _evmNetwork!: string | undefined | null
 
@@ -26,6 +27,7 @@ export class Erc20Token {
       this._coingeckoId = json.coingeckoId == null ? undefined : marshal.string.fromJSON(json.coingeckoId)
       this._rates = json.rates == null ? undefined : new TokenRates(undefined, json.rates)
       this._contractAddress = json.contractAddress == null ? undefined : marshal.string.fromJSON(json.contractAddress)
+      this._name = json.name == null ? undefined : marshal.string.fromJSON(json.name)
       this._chain = json.chain == null ? undefined : marshal.string.fromJSON(json.chain)
       this._evmNetwork = json.evmNetwork == null ? undefined : marshal.string.fromJSON(json.evmNetwork)
     }
@@ -110,6 +112,17 @@ export class Erc20Token {
     this._contractAddress = value
   }
 
+  /**
+   * on-chain erc20 name of this token
+   */
+  get name(): string | undefined | null {
+    return this._name
+  }
+
+  set name(value: string | undefined | null) {
+    this._name = value
+  }
+
   /**
    * substrate chain this token is on
    */
@@ -142,6 +155,7 @@ export class Erc20Token {
       coingeckoId: this.coingeckoId,
       rates: this.rates == null ? undefined : this.rates.toJSON(),
       contractAddress: this.contractAddress,
+      name: this.name,
       chain: this.chain,
       evmNetwork: this.evmNetwork,
     }
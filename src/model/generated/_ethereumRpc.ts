@@ -4,12 +4,26 @@ import * as marshal from "./marshal"
 export class EthereumRpc {
   private _url!: string
   private _isHealthy!: boolean
+  private _unhealthyReason!: string | undefined | null
+  private _latencyMs!: number | undefined | null
+  private _blockNumber!: number | undefined | null
+  private _lastCheckedAt!: Date | undefined | null
+  private _uptime1h!: number | undefined | null
+  private _uptime24h!: number | undefined | null
+  private _uptime7d!: number | undefined | null
 
   constructor(props?: Partial<Omit<EthereumRpc, 'toJSON'>>, json?: any) {
     Object.assign(this, props)
     if (json != null) {
       this._url = marshal.string.fromJSON(json.url)
       this._isHealthy = marshal.boolean.fromJSON(json.isHealthy)
+      this._unhealthyReason = json.unhealthyReason == null ? undefined : marshal.string.fromJSON(json.unhealthyReason)
+      this._latencyMs = json.latencyMs == null ? undefined : marshal.int.fromJSON(json.latencyMs)
+      this._blockNumber = json.blockNumber == null ? undefined : marshal.int.fromJSON(json.blockNumber)
+      this._lastCheckedAt = json.lastCheckedAt == null ? undefined : marshal.datetime.fromJSON(json.lastCheckedAt)
+      this._uptime1h = json.uptime1h == null ? undefined : marshal.float.fromJSON(json.uptime1h)
+      this._uptime24h = json.uptime24h == null ? undefined : marshal.float.fromJSON(json.uptime24h)
+      this._uptime7d = json.uptime7d == null ? undefined : marshal.float.fromJSON(json.uptime7d)
     }
   }
 
@@ -37,10 +51,94 @@ export class EthereumRpc {
     this._isHealthy = value
   }
 
+  /**
+   * reason this ethereum rpc is unhealthy (e.g. timeout, origin rejected, wrong chain id)
+   */
+  get unhealthyReason(): string | undefined | null {
+    return this._unhealthyReason
+  }
+
+  set unhealthyReason(value: string | undefined | null) {
+    this._unhealthyReason = value
+  }
+
+  /**
+   * round-trip time of a request to this ethereum rpc in milliseconds
+   */
+  get latencyMs(): number | undefined | null {
+    return this._latencyMs
+  }
+
+  set latencyMs(value: number | undefined | null) {
+    this._latencyMs = value
+  }
+
+  /**
+   * latest block number reported by this ethereum rpc
+   */
+  get blockNumber(): number | undefined | null {
+    return this._blockNumber
+  }
+
+  set blockNumber(value: number | undefined | null) {
+    this._blockNumber = value
+  }
+
+  /**
+   * time at which the health of this ethereum rpc was last checked
+   */
+  get lastCheckedAt(): Date | undefined | null {
+    return this._lastCheckedAt
+  }
+
+  set lastCheckedAt(value: Date | undefined | null) {
+    this._lastCheckedAt = value
+  }
+
+  /**
+   * percentage of health checks this ethereum rpc passed in the last hour
+   */
+  get uptime1h(): number | undefined | null {
+    return this._uptime1h
+  }
+
+  set uptime1h(value: number | undefined | null) {
+    this._uptime1h = value
+  }
+
+  /**
+   * percentage of health checks this ethereum rpc passed in the last 24 hours
+   */
+  get uptime24h(): number | undefined | null {
+    return this._uptime24h
+  }
+
+  set uptime24h(value: number | undefined | null) {
+    this._uptime24h = value
+  }
+
+  /**
+   * percentage of health checks this ethereum rpc passed in the last 7 days
+   */
+  get uptime7d(): number | undefined | null {
+    return this._uptime7d
+  }
+
+  set uptime7d(value: number | undefined | null) {
+    this._uptime7d = value
+  }
+
   toJSON(): object {
     return {
       url: this.url,
       isHealthy: this.isHealthy,
+      unhealthyReason: this.unhealthyReason,
+      latencyMs: this.latencyMs,
+      blockNumber: this.blockNumber,
+      lastCheckedAt: this.lastCheckedAt == null ? undefined : marshal.datetime.toJSON(this.lastCheckedAt),
+      uptime1h: this.uptime1h,
+      uptime24h: this.uptime24h,
+      uptime7d: this.uptime7d,
     }
   }
 }
@@ -1,6 +1,7 @@
 import assert from "assert"
 import * as marshal from "./marshal"
 import {TokenRates} from "./_tokenRates"
+import {Chain} from "./chain.model"
 
 export class LiquidityProviderToken {
   public readonly isTypeOf = 'LiquidityProviderToken'
@@ -10,6 +11,10 @@ export class LiquidityProviderToken {
   private _decimals!: number | undefined | null
   private _coingeckoId!: string | undefined | null
   private _rates!: TokenRates | undefined | null
+  private _stateKey!: string | undefined | null
+  private _currencyId0!: string | undefined | null
+  private _currencyId1!: string | undefined | null
+  private _chain!: string | undefined | null
 
   constructor(props?: Partial<Omit<LiquidityProviderToken, 'toJSON'>>, json?: any) {
     Object.assign(this, props)
@@ -20,6 +25,10 @@ export class LiquidityProviderToken {
       this._decimals = json.decimals == null ? undefined : marshal.int.fromJSON(json.decimals)
       this._coingeckoId = json.coingeckoId == null ? undefined : marshal.string.fromJSON(json.coingeckoId)
       this._rates = json.rates == null ? undefined : new TokenRates(undefined, json.rates)
+      this._stateKey = json.stateKey == null ? undefined : marshal.string.fromJSON(json.stateKey)
+      this._currencyId0 = json.currencyId0 == null ? undefined : marshal.string.fromJSON(json.currencyId0)
+      this._currencyId1 = json.currencyId1 == null ? undefined : marshal.string.fromJSON(json.currencyId1)
+      this._chain = json.chain == null ? undefined : marshal.string.fromJSON(json.chain)
     }
   }
 
@@ -91,6 +100,50 @@ export class LiquidityProviderToken {
     this._rates = value
   }
 
+  /**
+   * the on-chain orml TokenId used to identify this token
+   */
+  get stateKey(): string | undefined | null {
+    return this._stateKey
+  }
+
+  set stateKey(value: string | undefined | null) {
+    this._stateKey = value
+  }
+
+  /**
+   * json of the on-chain orml CurrencyId of the first token in this liquidity pool
+   */
+  get currencyId0(): string | undefined | null {
+    return this._currencyId0
+  }
+
+  set currencyId0(value: string | undefined | null) {
+    this._currencyId0 = value
+  }
+
+  /**
+   * json of the on-chain orml CurrencyId of the second token in this liquidity pool
+   */
+  get currencyId1(): string | undefined | null {
+    return this._currencyId1
+  }
+
+  set currencyId1(value: string | undefined | null) {
+    this._currencyId1 = value
+  }
+
+  /**
+   * substrate chain this token is on
+   */
+  get chain(): string | undefined | null {
+    return this._chain
+  }
+
+  set chain(value: string | undefined | null) {
+    this._chain = value
+  }
+
   toJSON(): object {
     return {
       isTypeOf: this.isTypeOf,
@@ -100,6 +153,10 @@ export class LiquidityProviderToken {
       decimals: this.decimals,
       coingeckoId: this.coingeckoId,
       rates: this.rates == null ? undefined : this.rates.toJSON(),
+      stateKey: this.stateKey,
+      currencyId0: this.currencyId0,
+      currencyId1: this.currencyId1,
+      chain: this.chain,
     }
   }
 }
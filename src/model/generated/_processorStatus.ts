@@ -0,0 +1,7 @@
+export enum ProcessorStatus {
+  Running = "Running",
+  Succeeded = "Succeeded",
+  Failed = "Failed",
+  Cancelled = "Cancelled",
+  Skipped = "Skipped",
+}
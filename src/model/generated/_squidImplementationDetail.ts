@@ -1,16 +1,18 @@
 import {NativeToken} from "./_nativeToken"
 import {OrmlToken} from "./_ormlToken"
+import {AssetsToken} from "./_assetsToken"
 import {LiquidCrowdloanToken} from "./_liquidCrowdloanToken"
 import {LiquidityProviderToken} from "./_liquidityProviderToken"
 import {XcToken} from "./_xcToken"
 import {Erc20Token} from "./_erc20Token"
 
-export type SquidImplementationDetail = NativeToken | OrmlToken | LiquidCrowdloanToken | LiquidityProviderToken | XcToken | Erc20Token
+export type SquidImplementationDetail = NativeToken | OrmlToken | AssetsToken | LiquidCrowdloanToken | LiquidityProviderToken | XcToken | Erc20Token
 
 export function fromJsonSquidImplementationDetail(json: any): SquidImplementationDetail {
   switch(json?.isTypeOf) {
     case 'NativeToken': return new NativeToken(undefined, json)
     case 'OrmlToken': return new OrmlToken(undefined, json)
+    case 'AssetsToken': return new AssetsToken(undefined, json)
     case 'LiquidCrowdloanToken': return new LiquidCrowdloanToken(undefined, json)
     case 'LiquidityProviderToken': return new LiquidityProviderToken(undefined, json)
     case 'XcToken': return new XcToken(undefined, json)
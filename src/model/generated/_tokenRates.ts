@@ -1,5 +1,6 @@
 import assert from "assert"
 import * as marshal from "./marshal"
+import {TokenRatesChange} from "./_tokenRatesChange"
 
 export class TokenRates {
   private _usd!: number | undefined | null
@@ -15,6 +16,11 @@ export class TokenRates {
   private _btc!: number | undefined | null
   private _eth!: number | undefined | null
   private _dot!: number | undefined | null
+  private _updatedAt!: Date | undefined | null
+  private _source!: string | undefined | null
+  private _isStale!: boolean | undefined | null
+  private _change24h!: TokenRatesChange | undefined | null
+  private _change7d!: TokenRatesChange | undefined | null
 
   constructor(props?: Partial<Omit<TokenRates, 'toJSON'>>, json?: any) {
     Object.assign(this, props)
@@ -32,6 +38,11 @@ export class TokenRates {
       this._btc = json.btc == null ? undefined : marshal.float.fromJSON(json.btc)
       this._eth = json.eth == null ? undefined : marshal.float.fromJSON(json.eth)
       this._dot = json.dot == null ? undefined : marshal.float.fromJSON(json.dot)
+      this._updatedAt = json.updatedAt == null ? undefined : marshal.datetime.fromJSON(json.updatedAt)
+      this._source = json.source == null ? undefined : marshal.string.fromJSON(json.source)
+      this._isStale = json.isStale == null ? undefined : marshal.boolean.fromJSON(json.isStale)
+      this._change24h = json.change24h == null ? undefined : new TokenRatesChange(undefined, json.change24h)
+      this._change7d = json.change7d == null ? undefined : new TokenRatesChange(undefined, json.change7d)
     }
   }
 
@@ -178,6 +189,61 @@ export class TokenRates {
     this._dot = value
   }
 
+  /**
+   * time at which these rates were fetched
+   */
+  get updatedAt(): Date | undefined | null {
+    return this._updatedAt
+  }
+
+  set updatedAt(value: Date | undefined | null) {
+    this._updatedAt = value
+  }
+
+  /**
+   * comma-separated price providers these rates were fetched from, in order of priority (e.g. coingecko,defillama)
+   */
+  get source(): string | undefined | null {
+    return this._source
+  }
+
+  set source(value: string | undefined | null) {
+    this._source = value
+  }
+
+  /**
+   * true when the latest price update had no rates (or only some of the rates) for this token, and the missing rates are the last-known rates instead
+   */
+  get isStale(): boolean | undefined | null {
+    return this._isStale
+  }
+
+  set isStale(value: boolean | undefined | null) {
+    this._isStale = value
+  }
+
+  /**
+   * percentage change of each rate over the last 24 hours
+   */
+  get change24h(): TokenRatesChange | undefined | null {
+    return this._change24h
+  }
+
+  set change24h(value: TokenRatesChange | undefined | null) {
+    this._change24h = value
+  }
+
+  /**
+   * percentage change of each rate over the last 7 days
+   */
+  get change7d(): TokenRatesChange | undefined | null {
+    return this._change7d
+  }
+
+  set change7d(value: TokenRatesChange | undefined | null) {
+    this._change7d = value
+  }
+
   toJSON(): object {
     return {
       usd: this.usd,
@@ -193,6 +259,11 @@ export class TokenRates {
       btc: this.btc,
       eth: this.eth,
       dot: this.dot,
+      updatedAt: this.updatedAt == null ? undefined : marshal.datetime.toJSON(this.updatedAt),
+      source: this.source,
+      isStale: this.isStale,
+      change24h: this.change24h == null ? undefined : this.change24h.toJSON(),
+      change7d: this.change7d == null ? undefined : this.change7d.toJSON(),
     }
   }
 }
@@ -1,6 +1,7 @@
 import assert from "assert"
 import * as marshal from "./marshal"
 import {TokenRates} from "./_tokenRates"
+import {Chain} from "./chain.model"
 
 export class XcToken {
   public readonly isTypeOf = 'XcToken'
@@ -10,6 +11,9 @@ export class XcToken {
   private _decimals!: number | undefined | null
   private _coingeckoId!: string | undefined | null
   private _rates!: TokenRates | undefined | null
+  private _assetId!: string | undefined | null
+  private _contractAddress!: string | undefined | null
+  private _chain!: string | undefined | null
 
   constructor(props?: Partial<Omit<XcToken, 'toJSON'>>, json?: any) {
     Object.assign(this, props)
@@ -20,6 +24,9 @@ export class XcToken {
       this._decimals = json.decimals == null ? undefined : marshal.int.fromJSON(json.decimals)
       this._coingeckoId = json.coingeckoId == null ? undefined : marshal.string.fromJSON(json.coingeckoId)
       this._rates = json.rates == null ? undefined : new TokenRates(undefined, json.rates)
+      this._assetId = json.assetId == null ? undefined : marshal.string.fromJSON(json.assetId)
+      this._contractAddress = json.contractAddress == null ? undefined : marshal.string.fromJSON(json.contractAddress)
+      this._chain = json.chain == null ? undefined : marshal.string.fromJSON(json.chain)
     }
   }
 
@@ -91,6 +98,39 @@ export class XcToken {
     this._rates = value
   }
 
+  /**
+   * the on-chain pallet-assets AssetId used to identify this token
+   */
+  get assetId(): string | undefined | null {
+    return this._assetId
+  }
+
+  set assetId(value: string | undefined | null) {
+    this._assetId = value
+  }
+
+  /**
+   * on-chain erc20 precompile contract address of this token (e.g. on moonbeam)
+   */
+  get contractAddress(): string | undefined | null {
+    return this._contractAddress
+  }
+
+  set contractAddress(value: string | undefined | null) {
+    this._contractAddress = value
+  }
+
+  /**
+   * substrate chain this token is on
+   */
+  get chain(): string | undefined | null {
+    return this._chain
+  }
+
+  set chain(value: string | undefined | null) {
+    this._chain = value
+  }
+
   toJSON(): object {
     return {
       isTypeOf: this.isTypeOf,
@@ -100,6 +140,9 @@ export class XcToken {
       decimals: this.decimals,
       coingeckoId: this.coingeckoId,
       rates: this.rates == null ? undefined : this.rates.toJSON(),
+      assetId: this.assetId,
+      contractAddress: this.contractAddress,
+      chain: this.chain,
     }
   }
 }
@@ -1,8 +1,10 @@
 import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToMany as OneToMany_} from "typeorm"
 import * as marshal from "./marshal"
+import {AccountType} from "./_accountType"
 import {Token} from "./token.model"
 import {SubstrateRpc} from "./_substrateRpc"
 import {EvmNetwork} from "./evmNetwork.model"
+import {ChainRuntimeVersion} from "./chainRuntimeVersion.model"
 
 @Entity_()
 export class Chain {
@@ -70,6 +72,60 @@ export class Chain {
   @Column_("text", {nullable: true})
   specVersion!: string | undefined | null
 
+  /**
+   * names of the pallets in the runtime of this chain
+   */
+  @Column_("text", {array: true, nullable: true})
+  pallets!: (string)[] | undefined | null
+
+  /**
+   * does this chain have the balances pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasBalances!: boolean | undefined | null
+
+  /**
+   * does this chain have the orml tokens pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasOrmlTokens!: boolean | undefined | null
+
+  /**
+   * does this chain have the assets pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasAssets!: boolean | undefined | null
+
+  /**
+   * does this chain have an evm?
+   */
+  @Column_("bool", {nullable: true})
+  hasEvm!: boolean | undefined | null
+
+  /**
+   * does this chain have a staking pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasStaking!: boolean | undefined | null
+
+  /**
+   * does this chain have the nomination pools pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasNominationPools!: boolean | undefined | null
+
+  /**
+   * does this chain have the crowdloan pallet?
+   */
+  @Column_("bool", {nullable: true})
+  hasCrowdloan!: boolean | undefined | null
+
+  /**
+   * on-chain account id type of this chain
+   */
+  @Column_("varchar", {length: 11, nullable: true})
+  accountType!: AccountType | undefined | null
+
   /**
    * native token for this chain
    */
@@ -131,4 +187,10 @@ export class Chain {
   @Index_()
   @ManyToOne_(() => Chain, {nullable: true})
   relay!: Chain | undefined | null
+
+  /**
+   * runtime versions of this chain which the processor has seen
+   */
+  @OneToMany_(() => ChainRuntimeVersion, e => e.chain)
+  runtimeVersions!: ChainRuntimeVersion[]
 }
@@ -0,0 +1,80 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {Chain} from "./chain.model"
+import {RuntimeMetadata} from "./runtimeMetadata.model"
+
+@Entity_()
+export class ChainRuntimeVersion {
+  constructor(props?: Partial<ChainRuntimeVersion>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * chain id + spec version
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * chain this runtime version is on
+   */
+  @Index_()
+  @ManyToOne_(() => Chain, {nullable: true})
+  chain!: Chain
+
+  /**
+   * specification name of this runtime version
+   */
+  @Column_("text", {nullable: false})
+  specName!: string
+
+  /**
+   * specification version of this runtime version
+   */
+  @Column_("int4", {nullable: false})
+  specVersion!: number
+
+  /**
+   * implementation name of this runtime version
+   */
+  @Column_("text", {nullable: true})
+  implName!: string | undefined | null
+
+  /**
+   * implementation version of this runtime version
+   */
+  @Column_("int4", {nullable: true})
+  implVersion!: number | undefined | null
+
+  /**
+   * transaction version of this runtime version
+   */
+  @Column_("int4", {nullable: true})
+  transactionVersion!: number | undefined | null
+
+  /**
+   * genesis hash of the chain this runtime version is on
+   */
+  @Index_()
+  @Column_("text", {nullable: true})
+  genesisHash!: string | undefined | null
+
+  /**
+   * blake2 hash of the metadata of this runtime version
+   */
+  @Column_("text", {nullable: true})
+  metadataHash!: string | undefined | null
+
+  /**
+   * metadata of this runtime version, for decoding and signing offline
+   */
+  @Index_()
+  @ManyToOne_(() => RuntimeMetadata, {nullable: true})
+  metadata!: RuntimeMetadata | undefined | null
+
+  /**
+   * time at which the processor first saw this runtime version
+   */
+  @Index_()
+  @Column_("timestamp with time zone", {nullable: false})
+  firstSeenAt!: Date
+}
@@ -0,0 +1,44 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_} from "typeorm"
+
+@Entity_()
+export class ChaindataIssue {
+  constructor(props?: Partial<ChaindataIssue>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * chaindata file + index of the entry + field
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * chaindata file the invalid entry is in
+   */
+  @Column_("text", {nullable: false})
+  file!: string
+
+  /**
+   * index of the invalid entry in the chaindata file
+   */
+  @Column_("int4", {nullable: false})
+  index!: number
+
+  /**
+   * id of the invalid entry, when it has one
+   */
+  @Column_("text", {nullable: true})
+  entryId!: string | undefined | null
+
+  /**
+   * field of the entry which is invalid, or null when the entry as a whole is invalid
+   */
+  @Column_("text", {nullable: true})
+  field!: string | undefined | null
+
+  /**
+   * reason the entry is invalid
+   */
+  @Column_("text", {nullable: false})
+  reason!: string
+}
@@ -0,0 +1,44 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_} from "typeorm"
+
+@Entity_()
+export class ChaindataMismatch {
+  constructor(props?: Partial<ChaindataMismatch>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * chaindata file + id of the entry + field
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * chaindata file the entry is in
+   */
+  @Column_("text", {nullable: false})
+  file!: string
+
+  /**
+   * id of the entry
+   */
+  @Column_("text", {nullable: false})
+  entryId!: string
+
+  /**
+   * field which has a different value in chaindata than on-chain
+   */
+  @Column_("text", {nullable: false})
+  field!: string
+
+  /**
+   * value of the field in chaindata
+   */
+  @Column_("text", {nullable: false})
+  chaindataValue!: string
+
+  /**
+   * value of the field on-chain
+   */
+  @Column_("text", {nullable: false})
+  onChainValue!: string
+}
@@ -1,13 +1,25 @@
 export * from "./chain.model"
+export * from "./_accountType"
 export * from "./_substrateRpc"
+export * from "./chainRuntimeVersion.model"
+export * from "./runtimeMetadata.model"
 export * from "./evmNetwork.model"
 export * from "./_ethereumRpc"
 export * from "./token.model"
 export * from "./_squidImplementationDetail"
 export * from "./_nativeToken"
 export * from "./_tokenRates"
+export * from "./_tokenRatesChange"
 export * from "./_ormlToken"
+export * from "./_assetsToken"
 export * from "./_liquidCrowdloanToken"
 export * from "./_liquidityProviderToken"
 export * from "./_xcToken"
 export * from "./_erc20Token"
+export * from "./tokenRateSnapshot.model"
+export * from "./rpcHealthCheck.model"
+export * from "./processorRun.model"
+export * from "./_processorStatus"
+export * from "./processorStepResult.model"
+export * from "./chaindataIssue.model"
+export * from "./chaindataMismatch.model"
@@ -0,0 +1,52 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, OneToMany as OneToMany_} from "typeorm"
+import {ProcessorStatus} from "./_processorStatus"
+import {ProcessorStepResult} from "./processorStepResult.model"
+
+@Entity_()
+export class ProcessorRun {
+  constructor(props?: Partial<ProcessorRun>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * unique id for this run
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * time at which this run started
+   */
+  @Column_("timestamp with time zone", {nullable: false})
+  startedAt!: Date
+
+  /**
+   * time at which this run finished
+   */
+  @Column_("timestamp with time zone", {nullable: true})
+  finishedAt!: Date | undefined | null
+
+  /**
+   * duration of this run in milliseconds
+   */
+  @Column_("int4", {nullable: true})
+  durationMs!: number | undefined | null
+
+  /**
+   * status of this run
+   */
+  @Column_("varchar", {length: 9, nullable: false})
+  status!: ProcessorStatus
+
+  /**
+   * reason this run failed or was cancelled
+   */
+  @Column_("text", {nullable: true})
+  error!: string | undefined | null
+
+  /**
+   * results of the steps which were executed during this run
+   */
+  @OneToMany_(() => ProcessorStepResult, e => e.run)
+  steps!: ProcessorStepResult[]
+}
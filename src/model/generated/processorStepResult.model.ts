@@ -0,0 +1,65 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {ProcessorRun} from "./processorRun.model"
+import {ProcessorStatus} from "./_processorStatus"
+
+@Entity_()
+export class ProcessorStepResult {
+  constructor(props?: Partial<ProcessorStepResult>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * unique id for this step result
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * run this step was executed in
+   */
+  @Index_()
+  @ManyToOne_(() => ProcessorRun, {nullable: true})
+  run!: ProcessorRun
+
+  /**
+   * index of this step in the list of processor steps
+   */
+  @Column_("int4", {nullable: false})
+  index!: number
+
+  /**
+   * name of this step
+   */
+  @Column_("text", {nullable: false})
+  name!: string
+
+  /**
+   * time at which this step started
+   */
+  @Column_("timestamp with time zone", {nullable: false})
+  startedAt!: Date
+
+  /**
+   * time at which this step finished
+   */
+  @Column_("timestamp with time zone", {nullable: true})
+  finishedAt!: Date | undefined | null
+
+  /**
+   * duration of this step in milliseconds
+   */
+  @Column_("int4", {nullable: true})
+  durationMs!: number | undefined | null
+
+  /**
+   * status of this step
+   */
+  @Column_("varchar", {length: 9, nullable: false})
+  status!: ProcessorStatus
+
+  /**
+   * reason this step failed or was skipped
+   */
+  @Column_("text", {nullable: true})
+  error!: string | undefined | null
+}
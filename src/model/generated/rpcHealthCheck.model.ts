@@ -0,0 +1,65 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_} from "typeorm"
+
+@Entity_()
+export class RpcHealthCheck {
+  constructor(props?: Partial<RpcHealthCheck>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * unique id for this health check
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * substrate chain the checked rpc belongs to (if this is a substrate rpc)
+   */
+  @Index_()
+  @Column_("text", {nullable: true})
+  chainId!: string | undefined | null
+
+  /**
+   * evm network the checked rpc belongs to (if this is an ethereum rpc)
+   */
+  @Index_()
+  @Column_("text", {nullable: true})
+  evmNetworkId!: string | undefined | null
+
+  /**
+   * url of the checked rpc
+   */
+  @Column_("text", {nullable: false})
+  url!: string
+
+  /**
+   * time at which the rpc was checked
+   */
+  @Index_()
+  @Column_("timestamp with time zone", {nullable: false})
+  checkedAt!: Date
+
+  /**
+   * health status of the rpc at the time of this check
+   */
+  @Column_("bool", {nullable: false})
+  isHealthy!: boolean
+
+  /**
+   * reason the rpc was unhealthy at the time of this check
+   */
+  @Column_("text", {nullable: true})
+  unhealthyReason!: string | undefined | null
+
+  /**
+   * round-trip time of a request to the rpc in milliseconds
+   */
+  @Column_("int4", {nullable: true})
+  latencyMs!: number | undefined | null
+
+  /**
+   * latest block number reported by the rpc
+   */
+  @Column_("int4", {nullable: true})
+  blockNumber!: number | undefined | null
+}
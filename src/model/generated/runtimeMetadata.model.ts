@@ -0,0 +1,33 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, OneToMany as OneToMany_} from "typeorm"
+import {ChainRuntimeVersion} from "./chainRuntimeVersion.model"
+
+@Entity_()
+export class RuntimeMetadata {
+  constructor(props?: Partial<RuntimeMetadata>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * blake2 hash of this metadata
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * hex-encoded SCALE metadata, as returned by the state_getMetadata rpc
+   */
+  @Column_("text", {nullable: false})
+  metadata!: string
+
+  /**
+   * time at which the processor first saw this metadata
+   */
+  @Column_("timestamp with time zone", {nullable: false})
+  firstSeenAt!: Date
+
+  /**
+   * runtime versions which have this metadata
+   */
+  @OneToMany_(() => ChainRuntimeVersion, e => e.metadata)
+  runtimeVersions!: ChainRuntimeVersion[]
+}
@@ -0,0 +1,46 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_} from "typeorm"
+
+@Index_(["tokenId", "currency", "timestamp"], {unique: false})
+@Entity_()
+export class TokenRateSnapshot {
+  constructor(props?: Partial<TokenRateSnapshot>) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * token id + currency + timestamp
+   */
+  @PrimaryColumn_()
+  id!: string
+
+  /**
+   * talisman-defined id of the token this rate is for
+   */
+  @Column_("text", {nullable: false})
+  tokenId!: string
+
+  /**
+   * currency this rate is in (e.g. usd, btc)
+   */
+  @Column_("text", {nullable: false})
+  currency!: string
+
+  /**
+   * rate of the token in this currency
+   */
+  @Column_("numeric", {nullable: false})
+  rate!: number
+
+  /**
+   * price provider this rate was fetched from (e.g. coingecko, defillama)
+   */
+  @Column_("text", {nullable: true})
+  source!: string | undefined | null
+
+  /**
+   * time at which this rate was fetched
+   */
+  @Index_()
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+}
@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+import { WsProvider } from '@polkadot/api'
+import { Metadata, TypeRegistry, decorateConstants, decorateStorage } from '@polkadot/types'
+
+import { storageKey, twox64Concat } from './helpers'
+import { fetchRegisteredCurrencies } from './orml'
+
+// the metadata of karura runtime 2042, from the `metadata/static-latest` file of @acala-network/types@4.1.1
+const karuraMetadataHex = readFileSync(
+  join(__dirname, 'fixtures', 'karura-2042-metadata.hex'),
+  'utf8'
+).trim() as `0x${string}`
+
+describe('fetchRegisteredCurrencies', () => {
+  const registry = new TypeRegistry()
+  const metadata = new Metadata(registry, karuraMetadataHex)
+  registry.setMetadata(metadata, [])
+
+  const storage = decorateStorage(registry, metadata.asLatest, metadata.version)
+  const assetMetadatas = storage.assetRegistry.assetMetadatas
+  const assetIdsType = registry.createLookupType(assetMetadatas.meta.type.asMap.key)
+  const assetMetadataType = registry.createLookupType(assetMetadatas.meta.type.asMap.value)
+  const currencyIdType = registry.createLookupType(
+    metadata.asLatest.lookup.types.find(
+      ({ type }) => type.path.slice(-1).toString() === 'CurrencyId' && type.def.isVariant
+    )!.id
+  )
+
+  const stateKey = (currencyId: object) => twox64Concat(registry.createTypeUnsafe(currencyIdType, [currencyId]).toU8a())
+
+  // serves the given asset registry entries over state_getKeysPaged / state_queryStorageAt
+  const socketWithAssets = (assets: Array<[assetIds: object, assetMetadata: object]>) => {
+    const storageEntries = assets.map(([assetIds, assetMetadata]) => [
+      storageKey(
+        'AssetRegistry',
+        'AssetMetadatas',
+        twox64Concat(registry.createTypeUnsafe(assetIdsType, [assetIds]).toU8a())
+      ),
+      registry.createTypeUnsafe(assetMetadataType, [assetMetadata]).toHex(),
+    ])
+
+    return {
+      isReady: Promise.resolve(),
+      on: () => undefined,
+      send: async (method: string) =>
+        method === 'state_getKeysPaged'
+          ? storageEntries.map(([key]) => key)
+          : [{ changes: storageEntries.map(([key, value]) => [key, value]) }],
+    } as unknown as WsProvider
+  }
+
+  it('has no tokens.existentialDeposits constant to read the existential deposits from', () => {
+    const constants = decorateConstants(registry, metadata.asLatest, metadata.version)
+
+    expect(constants.tokens.existentialDeposits).toBeUndefined()
+  })
+
+  it('takes the existential deposit of each registered currency from its minimalBalance', async () => {
+    const socket = socketWithAssets([
+      [
+        { NativeAssetId: { Token: 'KSM' } },
+        { name: 'Kusama', symbol: 'KSM', decimals: 12, minimalBalance: 100_000_000 },
+      ],
+      [{ ForeignAssetId: 0 }, { name: 'RMRK', symbol: 'RMRK', decimals: 10, minimalBalance: 100_000_000 }],
+    ])
+
+    expect(await fetchRegisteredCurrencies(socket, metadata, currencyIdType, 100)).toEqual([
+      {
+        stateKey: stateKey({ Token: 'KSM' }),
+        currencyIdKey: null,
+        symbol: 'KSM',
+        decimals: 12,
+        existentialDeposit: '100000000',
+      },
+      {
+        stateKey: stateKey({ ForeignAsset: 0 }),
+        currencyIdKey: 'foreignasset-0',
+        symbol: 'RMRK',
+        decimals: 10,
+        existentialDeposit: '100000000',
+      },
+    ])
+  })
+
+  it('tells apart currencies which share a symbol by their CurrencyId', async () => {
+    const socket = socketWithAssets([
+      [
+        { NativeAssetId: { Token: 'KUSD' } },
+        { name: 'Karura Dollar', symbol: 'KUSD', decimals: 12, minimalBalance: 1 },
+      ],
+      [{ ForeignAssetId: 7 }, { name: 'Karura Dollar', symbol: 'KUSD', decimals: 12, minimalBalance: 1 }],
+      [{ StableAssetId: 1 }, { name: 'Karura Dollar', symbol: 'KUSD', decimals: 12, minimalBalance: 1 }],
+    ])
+
+    const currencies = await fetchRegisteredCurrencies(socket, metadata, currencyIdType, 100)
+
+    expect(currencies.map(({ currencyIdKey }) => currencyIdKey)).toEqual([
+      null,
+      'foreignasset-7',
+      'stableassetpooltoken-1',
+    ])
+  })
+})
@@ -0,0 +1,128 @@
+import { WsProvider } from '@polkadot/api'
+import { Enum, Metadata, decorateStorage } from '@polkadot/types'
+import type { Registry } from '@polkadot/types/types'
+import { hexToU8a, u8aConcat, u8aToBn, u8aToString } from '@polkadot/util'
+
+import { fetchStorageEntries, fetchStorageMapEntries, getStructField, storageKey, twox64Concat } from './helpers'
+
+// Tokens.TotalIssuance is keyed by Twox64Concat(CurrencyId), so the CurrencyId starts after the prefix + hash
+const totalIssuancePrefix = storageKey('Tokens', 'TotalIssuance')
+const currencyIdOffset = hexToU8a(totalIssuancePrefix).length + 8
+
+/**
+ * Computes the orml `stateKey` of a `CurrencyId::LiquidCrowdloan(leaseId)` currency.
+ */
+export function liquidCrowdloanStateKey(liquidCrowdloanCurrencyIdIndex: number, leaseId: number) {
+  const leaseIdBytes = new Uint8Array(4)
+  new DataView(leaseIdBytes.buffer).setUint32(0, leaseId, true)
+
+  return twox64Concat(u8aConcat([liquidCrowdloanCurrencyIdIndex], leaseIdBytes))
+}
+
+/**
+ * Fetches the ids of the crowdloan leases which have a `CurrencyId::LiquidCrowdloan(leaseId)` token with issuance.
+ */
+export async function fetchLiquidCrowdloanLeaseIds(
+  socket: WsProvider,
+  liquidCrowdloanCurrencyIdIndex: number,
+  timeout: number
+): Promise<number[]> {
+  const totalIssuances = await fetchStorageMapEntries(socket, totalIssuancePrefix, timeout)
+
+  const leaseIds: number[] = []
+  for (const [key, value] of totalIssuances) {
+    const currencyId = hexToU8a(key).subarray(currencyIdOffset)
+
+    // LiquidCrowdloan(u32) is encoded as the variant index followed by the u32 lease id
+    if (currencyId.length !== 5 || currencyId[0] !== liquidCrowdloanCurrencyIdIndex) continue
+    if (u8aToBn(hexToU8a(value)).isZero()) continue
+
+    leaseIds.push(new DataView(currencyId.buffer, currencyId.byteOffset + 1, 4).getUint32(0, true))
+  }
+
+  return leaseIds.sort((a, b) => a - b)
+}
+
+export type RegisteredCurrency = {
+  stateKey: string
+  // the CurrencyId of the currency as `variant-value`, e.g. `foreignasset-3`, so that currencies which share a symbol
+  // can be told apart, null for `Token(TokenSymbol)` currencies (which are identified by their symbol alone)
+  currencyIdKey: string | null
+  symbol: string
+  decimals: number
+  existentialDeposit: string
+}
+
+// acala / karura key their asset registry by AssetIds, these are the CurrencyId variants of each AssetIds variant
+// (AssetIds::NativeAssetId holds a CurrencyId already)
+const assetIdsCurrencyIdVariants: Record<string, string> = {
+  Erc20: 'erc20',
+  StableAssetId: 'stableAssetPoolToken',
+  ForeignAssetId: 'foreignAsset',
+}
+
+// these currencies are saved as other token types
+const ignoredCurrencyIdVariants = ['DexShare', 'LiquidCrowdloan']
+
+/**
+ * Fetches the orml currencies (e.g. foreign assets, stable asset pool tokens and erc20s) which are registered
+ * in the asset registry of a chain, along with their metadata.
+ *
+ * The orml tokens pallet doesn't expose its existential deposits in the metadata (`ExistentialDeposits` is a
+ * `GetByKey`, not a constant), so the `minimalBalance` of each registered currency is used as its existential deposit.
+ *
+ * `currencyIdType` is the type of the chain's CurrencyId, which each currency's `stateKey` is computed from.
+ */
+export async function fetchRegisteredCurrencies(
+  socket: WsProvider,
+  metadata: Metadata,
+  currencyIdType: string,
+  timeout: number
+): Promise<RegisteredCurrency[]> {
+  const { registry } = metadata
+  const storage = decorateStorage(registry, metadata.asLatest, metadata.version)
+
+  // acala / karura
+  const assetMetadatas = storage.assetRegistry?.assetMetadatas
+  // bifrost
+  const currencyMetadatas = storage.assetRegistry?.currencyMetadatas
+
+  const entry = assetMetadatas ?? currencyMetadatas
+  if (!entry) return []
+
+  const entries = await fetchStorageEntries(socket, entry, timeout)
+
+  const currencies: RegisteredCurrency[] = []
+  for (const { args, value } of entries) {
+    const key = args[0] as Enum
+    const currencyId = entry === currencyMetadatas ? key : assetIdsToCurrencyId(registry, currencyIdType, key)
+    if (currencyId === null || ignoredCurrencyIdVariants.includes(currencyId.type)) continue
+
+    const symbol = u8aToString(getStructField(value, 'symbol')?.toU8a(true)).trim()
+    if (symbol === '') continue
+
+    currencies.push({
+      stateKey: twox64Concat(currencyId.toU8a()),
+      currencyIdKey: currencyId.type === 'Token' ? null : currencyIdKey(currencyId),
+      symbol,
+      decimals: Number(getStructField(value, 'decimals')?.toString() ?? 0),
+      existentialDeposit: getStructField(value, 'minimalBalance')?.toString() ?? '0',
+    })
+  }
+
+  return currencies
+}
+
+function assetIdsToCurrencyId(registry: Registry, currencyIdType: string, assetIds: Enum): Enum | null {
+  if (assetIds.type === 'NativeAssetId') return assetIds.value as Enum
+
+  const variant = assetIdsCurrencyIdVariants[assetIds.type]
+  if (variant === undefined) return null
+
+  return registry.createTypeUnsafe<Enum>(currencyIdType, [{ [variant]: assetIds.value.toJSON() }])
+}
+
+function currencyIdKey(currencyId: Enum): string {
+  const value = currencyId.value.toJSON()
+  return `${currencyId.type}-${typeof value === 'object' ? JSON.stringify(value) : value}`.toLowerCase()
+}
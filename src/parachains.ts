@@ -0,0 +1,65 @@
+import { WsProvider } from '@polkadot/api'
+import { TypeRegistry, createType } from '@polkadot/types'
+import { compactFromU8a, hexToU8a } from '@polkadot/util'
+import { blake2AsHex } from '@polkadot/util-crypto'
+
+import { sendWithTimeout, storageKey, twox64Concat } from './helpers'
+
+const registry = new TypeRegistry()
+const keysPageSize = 1000
+
+export const parachainIdStorageKey = storageKey('ParachainInfo', 'ParachainId')
+
+// chains with these pallets are relay chains which other chains can be parachains of
+export const relayChainPallets = ['Paras', 'Registrar']
+
+export function decodeParachainId(storageValue: unknown): number | null {
+  if (typeof storageValue !== 'string') return null
+  return createType(registry, 'u32', hexToU8a(storageValue)).toNumber()
+}
+
+/**
+ * Fetches the ids of all paras (parachains and parathreads) which are registered on a relay chain.
+ */
+export async function fetchRegisteredParaIds(socket: WsProvider, timeout: number): Promise<Set<number>> {
+  const paraIds = new Set<number>()
+
+  for (const prefix of [storageKey('Paras', 'ParaLifecycles'), storageKey('Registrar', 'Paras')]) {
+    let startKey: string | null = null
+    while (true) {
+      const params: unknown[] = startKey === null ? [prefix, keysPageSize] : [prefix, keysPageSize, startKey]
+      const [keys]: string[][] = await sendWithTimeout(socket, [['state_getKeysPaged', params]], timeout)
+
+      // both maps are keyed by Twox64Concat(ParaId), so the paraId is the last 4 bytes of each key
+      for (const key of keys) paraIds.add(createType(registry, 'u32', hexToU8a(key).slice(-4)).toNumber())
+
+      if (keys.length < keysPageSize) break
+      startKey = keys[keys.length - 1]
+    }
+  }
+
+  return paraIds
+}
+
+/**
+ * Fetches the latest block of `paraId` which has been included on a relay chain.
+ */
+export async function fetchParaHead(
+  socket: WsProvider,
+  paraId: number,
+  timeout: number
+): Promise<{ number: number; hash: string } | null> {
+  const paraIdKey = twox64Concat(createType(registry, 'u32', paraId).toU8a())
+  const [storageValue] = await sendWithTimeout(
+    socket,
+    [['state_getStorage', [storageKey('Paras', 'Heads', paraIdKey)]]],
+    timeout
+  )
+  if (typeof storageValue !== 'string') return null
+
+  // the head is the SCALE-encoded header of the parachain block, which starts with parentHash (32 bytes) + number
+  const head = createType(registry, 'Bytes', hexToU8a(storageValue)).toU8a(true)
+  const [, number] = compactFromU8a(head.subarray(32))
+
+  return { number: number.toNumber(), hash: blake2AsHex(head, 256) }
+}
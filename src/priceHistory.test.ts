@@ -0,0 +1,28 @@
+import { TokenRates } from './model'
+import { tokenRatesChange } from './priceHistory'
+
+describe('tokenRatesChange', () => {
+  it('computes the percentage change of each rate', () => {
+    const change = tokenRatesChange(new TokenRates({ usd: 6, eur: 4.5, dot: 1 }), { usd: 5, eur: 5, dot: 1 })
+
+    expect(change?.usd).toBeCloseTo(20)
+    expect(change?.eur).toBeCloseTo(-10)
+    expect(change?.dot).toBe(0)
+  })
+
+  it('has no change for currencies which have no rate now or had no rate in the past', () => {
+    const change = tokenRatesChange(new TokenRates({ usd: 6, eur: 4.5 }), { usd: 5, gbp: 4 })
+
+    expect(change?.eur).toBeNull()
+    expect(change?.gbp).toBeNull()
+    expect(change?.jpy).toBeNull()
+  })
+
+  it('has no change from a past rate of zero', () => {
+    expect(tokenRatesChange(new TokenRates({ usd: 6 }), { usd: 0 })?.usd).toBeNull()
+  })
+
+  it('returns null when the token has no past rates', () => {
+    expect(tokenRatesChange(new TokenRates({ usd: 6 }), undefined)).toBeNull()
+  })
+})
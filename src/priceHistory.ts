@@ -0,0 +1,84 @@
+import { chunk } from 'lodash'
+import { EntityManager, LessThan } from 'typeorm'
+
+import { Token, TokenRateSnapshot, TokenRates, TokenRatesChange } from './model'
+import { PriceCurrency, priceCurrencies } from './prices'
+
+// rates of a token in each currency
+export type PastTokenRates = Partial<Record<PriceCurrency, number>>
+
+/**
+ * Saves a snapshot of the rates of each of `tokens`, unless the last snapshot was saved less than `interval` ago.
+ * Stale rates are left out, as they are not the rates of the token at the time of the snapshot.
+ */
+export async function recordTokenRateSnapshots(store: EntityManager, tokens: Token[], interval: number) {
+  const [latest] = await store.find(TokenRateSnapshot, { order: { timestamp: 'DESC' }, take: 1 })
+  if (latest && latest.timestamp.getTime() > Date.now() - interval) return
+
+  const snapshots = tokens.flatMap(({ id: tokenId, squidImplementationDetail: { rates } }) => {
+    if (!rates?.updatedAt || rates.isStale) return []
+
+    const { updatedAt: timestamp, source } = rates
+    return priceCurrencies.flatMap((currency) => {
+      const rate = rates[currency]
+      if (typeof rate !== 'number') return []
+
+      const id = `${tokenId}-${currency}-${timestamp.getTime()}`
+      return [new TokenRateSnapshot({ id, tokenId, currency, rate, source: source ?? null, timestamp })]
+    })
+  })
+
+  // insert instead of save, so that typeorm doesn't look up each of the (new) snapshots first
+  for (const batch of chunk(snapshots, 1000)) await store.insert(TokenRateSnapshot, batch)
+}
+
+/**
+ * Fetches the rates of each token at time `at`, keyed by token id.
+ *
+ * Uses the newest snapshot from before `at`, as long as it's no more than two snapshot intervals older than `at`.
+ * This way a token which has no price history that far back has no past rates,
+ * rather than the past rates from some other point in time.
+ */
+export async function fetchPastTokenRates(
+  store: EntityManager,
+  at: Date,
+  snapshotInterval: number
+): Promise<Record<string, PastTokenRates>> {
+  const snapshots: Array<{ token_id: string; currency: PriceCurrency; rate: string }> = await store.query(
+    `SELECT DISTINCT ON ("token_id", "currency") "token_id", "currency", "rate"
+       FROM "token_rate_snapshot"
+      WHERE "timestamp" <= $1 AND "timestamp" > $2
+      ORDER BY "token_id", "currency", "timestamp" DESC`,
+    [at, new Date(at.getTime() - 2 * snapshotInterval)]
+  )
+
+  const pastRates: Record<string, PastTokenRates> = {}
+  for (const { token_id: tokenId, currency, rate } of snapshots) {
+    pastRates[tokenId] = { ...pastRates[tokenId], [currency]: Number(rate) }
+  }
+
+  return pastRates
+}
+
+/**
+ * Computes the percentage change from `pastRates` to `rates` in each currency.
+ */
+export function tokenRatesChange(rates: TokenRates, pastRates: PastTokenRates | undefined): TokenRatesChange | null {
+  if (!pastRates) return null
+
+  const change = new TokenRatesChange()
+  for (const currency of priceCurrencies) {
+    const rate = rates[currency]
+    const pastRate = pastRates[currency]
+    change[currency] = typeof rate === 'number' && pastRate ? ((rate - pastRate) / pastRate) * 100 : null
+  }
+
+  return change
+}
+
+/**
+ * Deletes the rate snapshots which are older than `retention`.
+ */
+export async function deleteStaleTokenRateSnapshots(store: EntityManager, retention: number) {
+  await store.delete(TokenRateSnapshot, { timestamp: LessThan(new Date(Date.now() - retention)) })
+}
@@ -0,0 +1,313 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { Logger } from '@subsquid/logger'
+import { AxiosError, AxiosResponse } from 'axios'
+
+import { TokenRates, TokenRatesChange } from './model'
+import {
+  PriceProvider,
+  TokenPrices,
+  aliasTokenRates,
+  fetchTokenPrices,
+  fixturePriceProvider,
+  priceCurrencies,
+  priceProvidersFromEnv,
+  resolvePriceAliases,
+  updatedTokenRates,
+} from './prices'
+
+const log = { debug: jest.fn(), warn: jest.fn() } as unknown as Logger
+
+// a provider which responds with (the requested currencies of) `prices`, or fails when `prices` is null
+const priceProvider = (name: string, priority: number, prices: TokenPrices | null) => {
+  const provider: PriceProvider = {
+    name,
+    priority,
+    timeout: 1_000,
+    attempts: 1,
+    batchSize: 100,
+    requestInterval: 0,
+    fetchPrices: jest.fn(async (coingeckoIds, currencies) => {
+      if (prices === null) throw new Error(`${name} is down`)
+
+      return Object.fromEntries(
+        coingeckoIds
+          .filter((id) => prices[id] !== undefined)
+          .map((id) => [
+            id,
+            Object.fromEntries(
+              currencies.flatMap((currency) => (currency in prices[id] ? [[currency, prices[id][currency]]] : []))
+            ),
+          ])
+      )
+    }),
+  }
+
+  return provider
+}
+
+describe('fetchTokenPrices', () => {
+  it('only asks the next provider for the tokens and currencies which the providers before it had no prices for', async () => {
+    const coingecko = priceProvider('coingecko', 0, { polkadot: { usd: 5, eur: 4.5 }, kusama: { eur: 27 } })
+    const defillama = priceProvider('defillama', 1, { polkadot: { usd: 6 }, kusama: { usd: 30 }, acala: { usd: 0.05 } })
+
+    const prices = await fetchTokenPrices([defillama, coingecko], ['polkadot', 'kusama', 'acala'], ['usd', 'eur'], log)
+
+    expect(prices).toEqual({
+      polkadot: { sources: ['coingecko'], prices: { usd: 5, eur: 4.5 } },
+      kusama: { sources: ['coingecko', 'defillama'], prices: { usd: 30, eur: 27 } },
+      acala: { sources: ['defillama'], prices: { usd: 0.05 } },
+    })
+    expect(defillama.fetchPrices).toHaveBeenCalledWith(['kusama', 'acala'], ['usd', 'eur'], 1_000)
+  })
+
+  it('falls back to the next provider when a provider fails', async () => {
+    const coingecko = priceProvider('coingecko', 0, null)
+    const defillama = priceProvider('defillama', 1, { polkadot: { usd: 6 } })
+
+    expect(await fetchTokenPrices([coingecko, defillama], ['polkadot'], ['usd', 'eur'], log)).toEqual({
+      polkadot: { sources: ['defillama'], prices: { usd: 6 } },
+    })
+  })
+
+  it('stops asking providers once every price has been fetched', async () => {
+    const coingecko = priceProvider('coingecko', 0, { polkadot: { usd: 5 } })
+    const defillama = priceProvider('defillama', 1, { polkadot: { usd: 6 } })
+
+    await fetchTokenPrices([coingecko, defillama], ['polkadot'], ['usd'], log)
+
+    expect(defillama.fetchPrices).not.toHaveBeenCalled()
+  })
+
+  describe('batches, rate limits and retries', () => {
+    beforeEach(() => jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'performance'] }))
+    afterEach(() => jest.useRealTimers())
+
+    // runs the timers of `promise` until it has settled
+    const settle = async <T>(promise: Promise<T>): Promise<T> => {
+      let isSettled = false
+      promise.finally(() => (isSettled = true)).catch(() => undefined)
+      while (!isSettled) {
+        await new Promise((resolve) => setImmediate(resolve))
+        jest.advanceTimersToNextTimer()
+      }
+      return promise
+    }
+
+    // a provider which responds with a usd price of 1 for each token, after failing with each of `errors` in turn
+    const flakyProvider = (options: Partial<PriceProvider>, errors: unknown[] = []) => {
+      const calledAt: number[] = []
+      const provider: PriceProvider = {
+        ...priceProvider('coingecko', 0, {}),
+        ...options,
+        fetchPrices: jest.fn(async (coingeckoIds: string[]) => {
+          calledAt.push(Date.now())
+          if (errors.length > 0) throw errors.shift()
+          return Object.fromEntries(coingeckoIds.map((id) => [id, { usd: 1 }]))
+        }),
+      }
+      const intervals = () => calledAt.slice(1).map((time, index) => time - calledAt[index])
+
+      return { provider, intervals }
+    }
+
+    const rateLimitError = (retryAfter: string) =>
+      new AxiosError('Request failed with status code 429', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 429,
+        headers: { 'retry-after': retryAfter },
+      } as unknown as AxiosResponse)
+
+    it('asks for the tokens in batches of batchSize, at most one request per requestInterval', async () => {
+      const { provider, intervals } = flakyProvider({ batchSize: 2, requestInterval: 1_000 })
+
+      const prices = await settle(fetchTokenPrices([provider], ['a', 'b', 'c', 'd', 'e'], ['usd'], log))
+
+      expect(Object.keys(prices)).toEqual(['a', 'b', 'c', 'd', 'e'])
+      expect(provider.fetchPrices).toHaveBeenCalledTimes(3)
+      expect((provider.fetchPrices as jest.Mock).mock.calls.map(([ids]) => ids)).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+        ['e'],
+      ])
+      expect(intervals()).toEqual([1_000, 1_000])
+    })
+
+    it('retries failed requests with an exponential backoff', async () => {
+      const { provider, intervals } = flakyProvider({ attempts: 3 }, [new Error('timeout'), new Error('timeout')])
+
+      expect(await settle(fetchTokenPrices([provider], ['polkadot'], ['usd'], log))).toEqual({
+        polkadot: { sources: ['coingecko'], prices: { usd: 1 } },
+      })
+      expect(intervals()).toEqual([5_000, 10_000])
+    })
+
+    it('retries rate limited requests after the delay in their retry-after header, up to 2 minutes', async () => {
+      const { provider, intervals } = flakyProvider({ attempts: 3 }, [rateLimitError('7'), rateLimitError('600')])
+
+      await settle(fetchTokenPrices([provider], ['polkadot'], ['usd'], log))
+
+      expect(intervals()).toEqual([7_000, 120_000])
+    })
+
+    it('falls back to the next provider once every attempt has failed', async () => {
+      const { provider } = flakyProvider({ attempts: 2 }, [rateLimitError('1'), rateLimitError('1')])
+      const defillama = priceProvider('defillama', 1, { polkadot: { usd: 6 } })
+
+      expect(await settle(fetchTokenPrices([provider, defillama], ['polkadot'], ['usd'], log))).toEqual({
+        polkadot: { sources: ['defillama'], prices: { usd: 6 } },
+      })
+      expect(provider.fetchPrices).toHaveBeenCalledTimes(2)
+    })
+  })
+})
+
+describe('fixturePriceProvider', () => {
+  let directory: string
+  let fixtureFile: string
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'prices-'))
+    fixtureFile = join(directory, 'prices.json')
+    await writeFile(fixtureFile, JSON.stringify({ polkadot: { usd: 5, eur: 4.5 }, kusama: { usd: 30 } }))
+  })
+  afterAll(() => rm(directory, { recursive: true, force: true }))
+
+  it('responds with the requested tokens and currencies of the fixture file', async () => {
+    const fixture = fixturePriceProvider(fixtureFile)
+
+    expect(await fixture.fetchPrices(['polkadot', 'kusama', 'acala'], ['usd', 'eur'], fixture.timeout)).toEqual({
+      polkadot: { usd: 5, eur: 4.5 },
+      kusama: { usd: 30 },
+    })
+  })
+
+  it('can be picked from the environment', async () => {
+    const [fixture] = priceProvidersFromEnv({ PRICE_PROVIDERS: 'fixture', PRICE_FIXTURE_FILE: fixtureFile })
+
+    expect(await fetchTokenPrices([fixture], ['kusama'], ['usd'], log)).toEqual({
+      kusama: { sources: [fixture.name], prices: { usd: 30 } },
+    })
+  })
+})
+
+describe('priceProvidersFromEnv', () => {
+  it('defaults to coingecko, then defillama', () => {
+    expect(priceProvidersFromEnv({}).map(({ name, priority, timeout }) => [name, priority, timeout])).toEqual([
+      ['coingecko', 0, 30_000],
+      ['defillama', 1, 30_000],
+    ])
+  })
+
+  it('orders the providers by PRICE_PROVIDERS and takes the timeout of each provider from its own variable', () => {
+    const providers = priceProvidersFromEnv({
+      PRICE_PROVIDERS: 'defillama, coingecko',
+      PRICE_PROVIDER_TIMEOUT_MS: '10000',
+      PRICE_PROVIDER_COINGECKO_TIMEOUT_MS: '5000',
+      COINGECKO_API_KEY: 'key',
+    })
+
+    expect(providers.map(({ name, priority, timeout }) => [name, priority, timeout])).toEqual([
+      ['defillama', 0, 10_000],
+      ['coingecko-pro', 1, 5_000],
+    ])
+  })
+
+  it('throws on unknown providers and on a fixture provider without a fixture file', () => {
+    expect(() => priceProvidersFromEnv({ PRICE_PROVIDERS: 'binance' })).toThrow(
+      'Unknown price provider binance in PRICE_PROVIDERS'
+    )
+    expect(() => priceProvidersFromEnv({ PRICE_PROVIDERS: 'fixture' })).toThrow(
+      'PRICE_FIXTURE_FILE is required for the fixture price provider'
+    )
+  })
+})
+
+describe('updatedTokenRates', () => {
+  const updatedAt = new Date('2022-07-01T00:00:00Z')
+  const previousRates = () =>
+    new TokenRates({
+      updatedAt: new Date('2022-06-30T00:00:00Z'),
+      source: 'coingecko',
+      isStale: false,
+      usd: 5,
+      eur: 4.5,
+    })
+
+  it('takes every fetched rate', () => {
+    const rates = updatedTokenRates(
+      previousRates(),
+      { sources: ['coingecko'], prices: { usd: 6, eur: 5.5 } },
+      updatedAt
+    )
+
+    expect(rates).toMatchObject({ updatedAt, source: 'coingecko', isStale: false, usd: 6, eur: 5.5 })
+  })
+
+  it('keeps the last-known rate of each currency which was not fetched, and marks the rates as stale', () => {
+    const rates = updatedTokenRates(previousRates(), { sources: ['defillama'], prices: { usd: 6 } }, updatedAt)
+
+    expect(rates).toMatchObject({ updatedAt, source: 'defillama', isStale: true, usd: 6, eur: 4.5 })
+  })
+
+  it('does not mark the rates as stale for currencies which never had a rate', () => {
+    const rates = updatedTokenRates(null, { sources: ['defillama'], prices: { usd: 6 } }, updatedAt)
+
+    expect(rates).toMatchObject({ isStale: false, usd: 6 })
+    expect(priceCurrencies.filter((currency) => typeof rates?.[currency] === 'number')).toEqual(['usd'])
+  })
+
+  it('keeps the last-known rates, marked as stale, when nothing was fetched', () => {
+    expect(updatedTokenRates(previousRates(), undefined, updatedAt)).toMatchObject({
+      source: 'coingecko',
+      isStale: true,
+      usd: 5,
+      eur: 4.5,
+    })
+    expect(updatedTokenRates(null, undefined, updatedAt)).toBeNull()
+  })
+})
+
+describe('resolvePriceAliases', () => {
+  it('follows aliases of aliases through to the token with rates of its own, multiplying the multipliers', () => {
+    const { resolved, cyclicTokenIds } = resolvePriceAliases({
+      'acala-lc-13-lcdot': { tokenId: 'polkadot-native-dot' },
+      'acala-tdot': { tokenId: 'acala-lc-13-lcdot', multiplier: 0.5 },
+      'moonbeam-xcdot': { tokenId: 'acala-tdot', multiplier: 4 },
+    })
+
+    expect(resolved).toEqual({
+      'acala-lc-13-lcdot': { tokenId: 'polkadot-native-dot', multiplier: 1 },
+      'acala-tdot': { tokenId: 'polkadot-native-dot', multiplier: 0.5 },
+      'moonbeam-xcdot': { tokenId: 'polkadot-native-dot', multiplier: 2 },
+    })
+    expect(cyclicTokenIds).toEqual([])
+  })
+
+  it('returns the tokens whose aliases lead back around in a cycle', () => {
+    const { resolved, cyclicTokenIds } = resolvePriceAliases({
+      a: { tokenId: 'b' },
+      b: { tokenId: 'c' },
+      c: { tokenId: 'a' },
+      d: { tokenId: 'b' },
+      self: { tokenId: 'self' },
+    })
+
+    expect(resolved).toEqual({})
+    expect(cyclicTokenIds).toEqual(['a', 'b', 'c', 'd', 'self'])
+  })
+})
+
+describe('aliasTokenRates', () => {
+  it('multiplies each rate, and keeps the metadata and percentage changes of the rates', () => {
+    const updatedAt = new Date('2022-07-01T00:00:00Z')
+    const change24h = new TokenRatesChange({ usd: 10 })
+    const rates = new TokenRates({ updatedAt, source: 'coingecko', isStale: true, change24h, usd: 5, eur: 4 })
+
+    const aliasRates = aliasTokenRates(rates, 2)
+
+    expect(aliasRates).toMatchObject({ updatedAt, source: 'coingecko', isStale: true, change24h, usd: 10, eur: 8 })
+    expect(aliasRates.gbp).toBeUndefined()
+    expect(rates.usd).toBe(5)
+  })
+})
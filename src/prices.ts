@@ -0,0 +1,339 @@
+import { readFile } from 'fs/promises'
+import { resolve } from 'path'
+
+import { Logger } from '@subsquid/logger'
+import axios from 'axios'
+import { chunk, mapValues } from 'lodash'
+
+import { errorMessage } from './helpers'
+import { TokenRates } from './model'
+import { NonFunctionPropertyNames, PriceAlias } from './types'
+
+export type PriceCurrency = Exclude<
+  NonFunctionPropertyNames<TokenRates>,
+  'updatedAt' | 'source' | 'isStale' | 'change24h' | 'change7d'
+>
+
+// every currency of TokenRates
+export const priceCurrencies: PriceCurrency[] = [
+  'usd',
+  'aud',
+  'nzd',
+  'cud',
+  'hkd',
+  'eur',
+  'gbp',
+  'jpy',
+  'krw',
+  'cny',
+  'btc',
+  'eth',
+  'dot',
+]
+
+// prices of each token in each currency, keyed by the coingecko id of the token
+export type TokenPrices = Record<string, Partial<Record<PriceCurrency, number>>>
+
+// prices of a token, along with the names of the providers they were fetched from
+export type SourcedTokenPrices = { sources: string[]; prices: TokenPrices[string] }
+
+export type PriceProvider = {
+  name: string
+  // providers are tried in order of priority, lowest first
+  priority: number
+  // how long to wait for the provider to respond to each request, before retrying it
+  timeout: number
+  // how many times to try each request to the provider before falling back to the next provider
+  attempts: number
+  // how many tokens to ask the provider for in each request
+  batchSize: number
+  // minimum time between the start of two requests to the provider, to stay within its rate limit
+  requestInterval: number
+  fetchPrices: (coingeckoIds: string[], currencies: PriceCurrency[], timeout: number) => Promise<TokenPrices>
+}
+
+type PriceProviderOptions = Partial<
+  Pick<PriceProvider, 'priority' | 'timeout' | 'attempts' | 'batchSize' | 'requestInterval'>
+>
+
+const defaultTimeout = 30_000 // 30_000ms = 30 seconds
+const retryDelay = 5_000 // 5_000ms = 5 seconds, doubled after each failed attempt
+const maxRetryDelay = 120_000 // 120_000ms = 2 minutes
+
+// the codes coingecko uses for the currencies whose TokenRates field is named differently
+const coingeckoCurrencyCodes: Partial<Record<PriceCurrency, string>> = { cud: 'cad' }
+
+/**
+ * Fetches prices from the coingecko api.
+ * Uses the pro api when `apiKey` is set, otherwise the (rate-limited) free api.
+ */
+export function coingeckoPriceProvider(apiKey?: string, options: PriceProviderOptions = {}): PriceProvider {
+  const apiUrl = apiKey ? 'https://pro-api.coingecko.com/api/v3' : 'https://api.coingecko.com/api/v3'
+  const headers = apiKey ? { 'x-cg-pro-api-key': apiKey } : undefined
+
+  return {
+    name: apiKey ? 'coingecko-pro' : 'coingecko',
+    priority: options.priority ?? 0,
+    timeout: options.timeout ?? defaultTimeout,
+    attempts: options.attempts ?? 3,
+    batchSize: options.batchSize ?? 100,
+    // the free api allows roughly 10 requests per minute, the pro api a lot more
+    requestInterval: options.requestInterval ?? (apiKey ? 500 : 6_000),
+    fetchPrices: async (coingeckoIds, currencies, timeout) => {
+      const codes = currencies.map((currency) => coingeckoCurrencyCodes[currency] ?? currency)
+      const params = { ids: coingeckoIds.join(','), vs_currencies: codes.join(',') }
+      const response = await axios.get(`${apiUrl}/simple/price`, { params, headers, timeout })
+      const prices: Record<string, Record<string, number>> = response.data ?? {}
+
+      return mapValues(prices, (tokenPrices) =>
+        Object.fromEntries(
+          currencies
+            .map((currency, index) => [currency, tokenPrices[codes[index]]] as const)
+            .filter(([, price]) => typeof price === 'number')
+        )
+      )
+    },
+  }
+}
+
+/**
+ * Fetches prices from the defillama api, which also identifies tokens by their coingecko id.
+ * Defillama only has usd prices.
+ */
+export function defillamaPriceProvider(options: PriceProviderOptions = {}): PriceProvider {
+  return {
+    name: 'defillama',
+    priority: options.priority ?? 1,
+    timeout: options.timeout ?? defaultTimeout,
+    attempts: options.attempts ?? 2,
+    batchSize: options.batchSize ?? 100,
+    requestInterval: options.requestInterval ?? 1_000,
+    fetchPrices: async (coingeckoIds, currencies, timeout) => {
+      if (!currencies.includes('usd') || coingeckoIds.length < 1) return {}
+
+      const coins = coingeckoIds.map((id) => `coingecko:${id}`).join(',')
+      const response = await axios.get(`https://coins.llama.fi/prices/current/${coins}`, { timeout })
+      const prices: Record<string, { price?: number }> = response.data?.coins ?? {}
+
+      return Object.fromEntries(
+        Object.entries(prices)
+          .filter(([, { price }]) => typeof price === 'number')
+          .map(([coin, { price }]) => [coin.replace(/^coingecko:/, ''), { usd: price }])
+      )
+    },
+  }
+}
+
+/**
+ * Loads prices from a json file on the local filesystem, in the same shape as coingecko's `simple/price` response.
+ * Useful for tests and for running the processor without access to a price api.
+ */
+export function fixturePriceProvider(file: string, options: PriceProviderOptions = {}): PriceProvider {
+  const absoluteFile = resolve(file)
+
+  return {
+    name: `fixture (${absoluteFile})`,
+    priority: options.priority ?? 0,
+    timeout: options.timeout ?? defaultTimeout,
+    attempts: options.attempts ?? 1,
+    batchSize: options.batchSize ?? Infinity,
+    requestInterval: options.requestInterval ?? 0,
+    fetchPrices: async (coingeckoIds, currencies) => {
+      const fixture: TokenPrices = JSON.parse(await readFile(absoluteFile, 'utf8'))
+
+      const prices: TokenPrices = {}
+      for (const id of coingeckoIds.filter((id) => fixture[id] !== undefined)) {
+        prices[id] = Object.fromEntries(
+          currencies.filter((currency) => currency in fixture[id]).map((currency) => [currency, fixture[id][currency]])
+        )
+      }
+
+      return prices
+    },
+  }
+}
+
+/**
+ * Picks the price providers to use based on the environment.
+ *
+ *   PRICE_PROVIDERS                  - comma-separated providers in order of priority, defaults to `coingecko,defillama`
+ *   PRICE_PROVIDER_TIMEOUT_MS        - how long to wait for each request to a provider, defaults to 30 seconds
+ *   PRICE_PROVIDER_<NAME>_TIMEOUT_MS - the timeout of a single provider, e.g. PRICE_PROVIDER_COINGECKO_TIMEOUT_MS
+ *   COINGECKO_API_KEY         - use the coingecko pro api with this key
+ *   PRICE_FIXTURE_FILE        - json file for the `fixture` provider
+ */
+export function priceProvidersFromEnv(env: NodeJS.ProcessEnv = process.env): PriceProvider[] {
+  const names = (env.PRICE_PROVIDERS || 'coingecko,defillama').split(',').map((name) => name.trim())
+  const defaultProviderTimeout = env.PRICE_PROVIDER_TIMEOUT_MS || String(defaultTimeout)
+
+  return names.map((name, priority) => {
+    const timeout = parseInt(env[`PRICE_PROVIDER_${name.toUpperCase()}_TIMEOUT_MS`] || defaultProviderTimeout)
+    const options = { priority, timeout }
+    if (name === 'coingecko') return coingeckoPriceProvider(env.COINGECKO_API_KEY || undefined, options)
+    if (name === 'defillama') return defillamaPriceProvider(options)
+    if (name === 'fixture') {
+      if (!env.PRICE_FIXTURE_FILE) throw new Error('PRICE_FIXTURE_FILE is required for the fixture price provider')
+      return fixturePriceProvider(env.PRICE_FIXTURE_FILE, options)
+    }
+
+    throw new Error(`Unknown price provider ${name} in PRICE_PROVIDERS`)
+  })
+}
+
+/**
+ * Fetches the prices of `coingeckoIds` from `providers` in order of priority.
+ *
+ * Each provider is asked only for the tokens which the providers before it had no prices for in one or more of
+ * `currencies`, in batches of `provider.batchSize` tokens, at most one request per `provider.requestInterval`.
+ * Prices are merged currency by currency, so a provider never replaces a price from a provider before it
+ * (e.g. the usd-only defillama prices only fill in the usd price of tokens which coingecko had no usd price for).
+ * A batch which fails (after retrying) is left to the next provider, so that one unavailable provider
+ * doesn't cost us all prices.
+ */
+export async function fetchTokenPrices(
+  providers: PriceProvider[],
+  coingeckoIds: string[],
+  currencies: PriceCurrency[],
+  log: Logger
+): Promise<Record<string, SourcedTokenPrices>> {
+  const prices: Record<string, SourcedTokenPrices> = {}
+  const missingCurrencies = (id: string) => currencies.filter((currency) => prices[id]?.prices[currency] === undefined)
+
+  for (const provider of [...providers].sort((a, b) => a.priority - b.priority)) {
+    const missingIds = [...new Set(coingeckoIds)].filter((id) => missingCurrencies(id).length > 0)
+    if (missingIds.length < 1) break
+
+    const batches = chunk(missingIds, provider.batchSize)
+    let lastRequestAt = 0
+    let fetchedCount = 0
+    for (const [index, batch] of batches.entries()) {
+      const batchCurrencies = currencies.filter((currency) =>
+        batch.some((id) => missingCurrencies(id).includes(currency))
+      )
+      const batchPrices = await fetchBatchPrices(provider, batch, batchCurrencies, log, async () => {
+        await sleep(lastRequestAt + provider.requestInterval - Date.now())
+        lastRequestAt = Date.now()
+      })
+      if (batchPrices === null) {
+        log.warn(`Price provider ${provider.name} batch ${index + 1} of ${batches.length} failed, falling back`)
+        continue
+      }
+
+      for (const id of batch) {
+        const fetchedPrices = missingCurrencies(id)
+          .map((currency) => [currency, batchPrices[id]?.[currency]] as const)
+          .filter((entry): entry is [PriceCurrency, number] => typeof entry[1] === 'number')
+        if (fetchedPrices.length < 1) continue
+
+        prices[id] = prices[id] ?? { sources: [], prices: {} }
+        prices[id].sources.push(provider.name)
+        Object.assign(prices[id].prices, Object.fromEntries(fetchedPrices))
+        fetchedCount += 1
+      }
+    }
+
+    log.debug(`Fetched prices for ${fetchedCount} of ${missingIds.length} tokens from ${provider.name}`)
+  }
+
+  return prices
+}
+
+/**
+ * Computes the new rates of a token from its `fetched` prices.
+ *
+ * Any currency which none of the price providers had a price for keeps its last-known rate from `previousRates`,
+ * in which case the rates are marked as stale. Returns `previousRates` (marked as stale) when nothing was fetched.
+ */
+export function updatedTokenRates(
+  previousRates: TokenRates | null | undefined,
+  fetched: SourcedTokenPrices | undefined,
+  updatedAt: Date
+): TokenRates | null {
+  if (!fetched) {
+    if (previousRates) previousRates.isStale = true
+    return previousRates ?? null
+  }
+
+  const rates = new TokenRates({ updatedAt, source: fetched.sources.join(','), isStale: false })
+  for (const currency of priceCurrencies) {
+    const rate = fetched.prices[currency] ?? previousRates?.[currency]
+    if (fetched.prices[currency] === undefined && typeof rate === 'number') rates.isStale = true
+    rates[currency] = rate
+  }
+
+  return rates
+}
+
+/**
+ * Fetches the prices of a batch of tokens from `provider`, retrying with an exponential backoff.
+ * Rate limited (http 429) responses are retried after the delay the provider asks for, when it asks for one.
+ * Returns null when every attempt failed.
+ */
+async function fetchBatchPrices(
+  provider: PriceProvider,
+  coingeckoIds: string[],
+  currencies: PriceCurrency[],
+  log: Logger,
+  waitForRateLimit: () => Promise<void>
+): Promise<TokenPrices | null> {
+  for (let attempt = 1; attempt <= provider.attempts; attempt += 1) {
+    try {
+      await waitForRateLimit()
+      return await provider.fetchPrices(coingeckoIds, currencies, provider.timeout)
+    } catch (error) {
+      log.warn(`Price provider ${provider.name} attempt ${attempt} failed: ${errorMessage(error)}`)
+      if (attempt >= provider.attempts) break
+
+      const retryAfterSeconds = axios.isAxiosError(error) ? parseInt(error.response?.headers['retry-after'] ?? '') : NaN
+      const backoff = Number.isNaN(retryAfterSeconds) ? retryDelay * 2 ** (attempt - 1) : retryAfterSeconds * 1000
+      await sleep(Math.min(backoff, maxRetryDelay))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Follows the price alias of each token (and the aliases of the tokens it points to) through to the token
+ * it ultimately takes its rates from, multiplying the multipliers along the way.
+ *
+ * Tokens whose aliases lead back around in a cycle never reach a token with rates of its own,
+ * so they are returned in `cyclicTokenIds` instead.
+ */
+export function resolvePriceAliases(aliases: Record<string, PriceAlias>) {
+  const resolved: Record<string, Required<PriceAlias>> = {}
+  const cyclicTokenIds: string[] = []
+
+  for (const [tokenId, alias] of Object.entries(aliases)) {
+    const visitedIds = new Set([tokenId])
+    let referenceId = alias.tokenId
+    let multiplier = alias.multiplier ?? 1
+    while (aliases[referenceId] && !visitedIds.has(referenceId)) {
+      visitedIds.add(referenceId)
+      multiplier *= aliases[referenceId].multiplier ?? 1
+      referenceId = aliases[referenceId].tokenId
+    }
+
+    if (visitedIds.has(referenceId)) cyclicTokenIds.push(tokenId)
+    else resolved[tokenId] = { tokenId: referenceId, multiplier }
+  }
+
+  return { resolved, cyclicTokenIds }
+}
+
+/**
+ * Computes the rates of a token which takes its rates from a token with `rates`, multiplied by `multiplier`.
+ * The percentage changes of the rates are the same for both tokens, so they're copied as-is.
+ */
+export function aliasTokenRates(rates: TokenRates, multiplier: number): TokenRates {
+  const { updatedAt, source, isStale, change24h, change7d } = rates
+  const aliasRates = new TokenRates({ updatedAt, source, isStale, change24h, change7d })
+  for (const currency of priceCurrencies) {
+    const rate = rates[currency]
+    aliasRates[currency] = typeof rate === 'number' ? rate * multiplier : rate
+  }
+
+  return aliasRates
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)))
@@ -1,101 +1,308 @@
+import { randomUUID } from 'crypto'
+
 import { WsProvider } from '@polkadot/api'
 import { Metadata, TypeRegistry, decorateConstants } from '@polkadot/types'
 import { lookupArchive } from '@subsquid/archive-registry'
-import { BlockHandlerContext, SubstrateProcessor } from '@subsquid/substrate-processor'
+import { Logger, createLogger } from '@subsquid/logger'
+import { SubstrateProcessor } from '@subsquid/substrate-processor'
+import { createOrmConfig } from '@subsquid/typeorm-config'
 import { FullTypeormDatabase } from '@subsquid/typeorm-store'
-import axios from 'axios'
-import { startCase } from 'lodash'
+import { countBy, mapValues, startCase } from 'lodash'
 import pMap from 'p-map'
-import { EntityManager } from 'typeorm'
+import { DataSource, EntityManager, In, LessThan } from 'typeorm'
 
+import { fetchAssets, fetchXcAssetIds, xcAssetContractAddress } from './assets'
+import { detectChainCapabilities } from './capabilities'
+import { chaindataSourceFromEnv } from './chaindata'
+import { fetchEnabledTradingPairs } from './dex'
+import { erc20TokenMetadata, fetchErc20Metadata } from './erc20'
 import {
+  assetsTokenId,
+  connectToRpc,
+  createExclusiveRunner,
+  defaultChainOverrides,
+  disconnectFromAllRpcs,
+  disconnectFromRpc,
   erc20TokenId,
+  errorMessage,
   getOrCreate,
   getOrCreateToken,
+  githubTokenId,
+  liquidCrowdloanTokenId,
+  liquidityProviderTokenId,
   nativeTokenId,
+  ormlStateKey,
   ormlTokenId,
+  refuseMassDeletion,
+  rpcUnhealthyReason,
   saveToken,
+  sendEthereumRpcRequest,
   sendWithTimeout,
   sortChainsAndNetworks,
-  tokenSymbolWorkarounds,
   twox64Concat,
+  withHealthyRpc,
+  xcTokenId,
 } from './helpers'
 import {
+  AssetsToken,
   Chain,
+  ChaindataIssue,
+  ChaindataMismatch,
   Erc20Token,
   EthereumRpc,
   EvmNetwork,
+  LiquidCrowdloanToken,
+  LiquidityProviderToken,
   NativeToken,
   OrmlToken,
+  ProcessorRun,
+  ProcessorStatus,
+  ProcessorStepResult,
   SubstrateRpc,
   Token,
   TokenRates,
+  XcToken,
 } from './model'
-import { GithubChain, GithubEvmNetwork, GithubToken, NonFunctionPropertyNames } from './types'
+import { fetchLiquidCrowdloanLeaseIds, fetchRegisteredCurrencies, liquidCrowdloanStateKey } from './orml'
+import {
+  decodeParachainId,
+  fetchParaHead,
+  fetchRegisteredParaIds,
+  parachainIdStorageKey,
+  relayChainPallets,
+} from './parachains'
+import {
+  deleteStaleTokenRateSnapshots,
+  fetchPastTokenRates,
+  recordTokenRateSnapshots,
+  tokenRatesChange,
+} from './priceHistory'
+import {
+  aliasTokenRates,
+  fetchTokenPrices,
+  priceCurrencies,
+  priceProvidersFromEnv,
+  resolvePriceAliases,
+  updatedTokenRates,
+} from './prices'
+import { deleteStaleRpcHealthChecks, markInconsistentSubstrateRpcs, recordRpcHealth } from './rpcHealth'
+import { deleteChainRuntimeVersions, recordRuntimeVersion } from './runtimeVersions'
+import { GithubChain, GithubEvmNetwork, GithubToken } from './types'
+import { validateGithubChains, validateGithubEvmNetworks, validateGithubTokens } from './validation'
 
 const numBlocksPerExecution = 50 // only run every 50 blocks ≈ 5 minutes at 6s / block
 const skipBlocksOlderThan = 86_400_000 // 86,400 seconds = skip execution for any blocks older than 24 hours
-const githubChaindataBranch = 'feat/split-entities' // 'main'
-const githubChaindataBaseUrl = `https://raw.githubusercontent.com/TalismanSociety/chaindata/${githubChaindataBranch}`
-const githubChainsUrl = `${githubChaindataBaseUrl}/chaindata.json`
-const githubTestnetChainsUrl = `${githubChaindataBaseUrl}/testnets-chaindata.json`
-const githubEvmNetworksUrl = `${githubChaindataBaseUrl}/evm-networks.json`
-const githubTokensUrl = `${githubChaindataBaseUrl}/tokens.json`
-const coingeckoApiUrl = 'https://api.coingecko.com/api/v3'
-const coingeckoCurrencies: Array<NonFunctionPropertyNames<TokenRates>> = [
-  'usd',
-  // 'aud',
-  // 'nzd',
-  // 'cud',
-  // 'hkd',
-  'eur',
-  // 'gbp',
-  // 'jpy',
-  // 'krw',
-  // 'cny',
-  // 'btc',
-  // 'eth',
-  // 'dot',
-]
+const chaindataSource = chaindataSourceFromEnv()
+// refuse to delete more than this fraction of the stored chains / evmNetworks / tokens in a single run,
+// unless fewer than `minCount` of them would be deleted
+const massDeletionLimits = {
+  maxRatio: parseFloat(process.env.CHAINDATA_MAX_DELETE_RATIO || '0.2'),
+  minCount: parseInt(process.env.CHAINDATA_MIN_MASS_DELETE_COUNT || '5'),
+}
+const priceProviders = priceProvidersFromEnv()
 
 const processSubstrateChainsConcurrency = 20
+const fetchErc20MetadataConcurrency = 20
 
 // chain rpc is set to unhealthy if it doesn't respond before this timeout
 const chainRpcTimeout = 120_000 // 120_000ms = 120 seconds = 2 minutes timeout on RPC requests
 
-const processor = new SubstrateProcessor(new FullTypeormDatabase())
-processor.setBatchSize(500)
-processor.setBlockRange({ from: 11_600_000 })
-processor.setDataSource({
-  chain: 'wss://rpc.polkadot.io',
-  archive: lookupArchive('polkadot', { release: 'FireSquid' }),
+// chain rpc is set to unhealthy if its latest block is more than this many blocks behind the chain's other rpcs
+const maxRpcBlockLag = parseInt(process.env.RPC_MAX_BLOCK_LAG || '20')
+
+// `blocks` runs the processor steps from the postBlock hook of a polkadot SubstrateProcessor
+// `scheduler` runs the processor steps on a fixed interval, without a SubstrateProcessor or archive
+const processorMode = process.env.PROCESSOR_MODE === 'scheduler' ? 'scheduler' : 'blocks'
+const schedulerIntervalMs = parseInt(process.env.SCHEDULER_INTERVAL_MS || '300000') // 300_000ms = 5 minutes
+
+// how long to keep ProcessorRun and ProcessorStepResult records for
+const processorRunRetentionMs = parseInt(process.env.PROCESSOR_RUN_RETENTION_DAYS || '7') * 86_400_000
+
+// how often to save a snapshot of each token's rates, and how long to keep the snapshots for
+const tokenRateSnapshotIntervalMs = parseInt(process.env.TOKEN_RATE_SNAPSHOT_INTERVAL_MS || '3600000') // 3_600_000ms = 1 hour
+const tokenRateSnapshotRetentionMs = parseInt(process.env.TOKEN_RATE_SNAPSHOT_RETENTION_DAYS || '30') * 86_400_000
+
+const log = createLogger('sqd:processor')
+
+// the processor steps run in their own db transaction, on a separate connection to the block processor's one
+// this way we can coalesce triggers and finish the current step on shutdown, no matter what triggered the execution
+let dataSource: DataSource | null = null
+let isShuttingDown = false
+const processorRunner = createExclusiveRunner(async () => {
+  try {
+    if (dataSource === null) dataSource = await new DataSource(createOrmConfig()).initialize()
+    await executeProcessorRun(dataSource)
+  } catch (error) {
+    log.error(error as Error, 'Execution failed')
+  }
 })
 
-processor.addPostHook(async (context) => {
-  const { block, log } = context
+// run the processor on start
+if (processorMode === 'scheduler') runScheduler()
+else runBlockProcessor()
+
+process.once('SIGTERM', () => shutdown('SIGTERM'))
+process.once('SIGINT', () => shutdown('SIGINT'))
+
+function runBlockProcessor() {
+  const processor = new SubstrateProcessor(new FullTypeormDatabase())
+  processor.setBatchSize(500)
+  processor.setBlockRange({ from: 11_600_000 })
+  processor.setDataSource({
+    chain: 'wss://rpc.polkadot.io',
+    archive: lookupArchive('polkadot', { release: 'FireSquid' }),
+  })
+
+  processor.addPostHook(async ({ block }) => {
+    const blockHeight = block.height
+    const blockTimestamp = block.timestamp
+
+    // only run every n blocks
+    if (blockHeight % numBlocksPerExecution !== 0) return
+
+    // skip blocks older than n
+    if (Date.now() - blockTimestamp > skipBlocksOlderThan) return
+
+    log.debug(`Triggering on block ${blockHeight}: block is recent and a multiple of ${numBlocksPerExecution}`)
+
+    processorRunner.trigger()
+  })
+
+  // indexer breaks if we don't subscribe to at least one type of event in addition to the postBlock hook
+  processor.addEventHandler('Balances.Transfer', async () => {})
+
+  processor.run()
+}
+
+function runScheduler() {
+  log.info(`Executing every ${schedulerIntervalMs}ms`)
+
+  processorRunner.trigger()
+  setInterval(() => processorRunner.trigger(), schedulerIntervalMs)
+}
+
+async function shutdown(signal: string) {
+  log.info(`Received ${signal}, shutting down after the current step has finished`)
+  isShuttingDown = true
+
+  await processorRunner.stop()
+  await disconnectFromAllRpcs()
+  await dataSource?.destroy()
+
+  process.exit(0)
+}
+
+async function executeProcessorRun(dataSource: DataSource) {
+  // runs are saved outside of the processor transaction,
+  // so that they show up in the api while the run is in progress, and are kept when the transaction fails
+  // step results are saved once the transaction has finished,
+  // so that they don't show steps as succeeded when the changes of those steps were rolled back
+  const { manager } = dataSource
+
+  const run = new ProcessorRun({ id: randomUUID(), startedAt: new Date(), status: ProcessorStatus.Running })
+  await manager.save(run)
+
+  const stepResults: ProcessorStepResult[] = []
+  try {
+    await dataSource.transaction('SERIALIZABLE', (store) => executeProcessorSteps({ store, log }, run, stepResults))
+
+    const failedSteps = stepResults.filter(({ status }) => status === ProcessorStatus.Failed)
+    if (failedSteps.length > 0) {
+      run.status = ProcessorStatus.Failed
+      run.error = `Failed steps: ${failedSteps.map(({ name }) => name).join(', ')}`
+    } else if (stepResults.length < processorSteps.length) {
+      run.status = ProcessorStatus.Cancelled
+      run.error = 'Shutting down'
+    } else {
+      run.status = ProcessorStatus.Succeeded
+    }
+  } catch (error) {
+    run.status = ProcessorStatus.Failed
+    run.error = errorMessage(error)
+
+    // the transaction failed (e.g. it couldn't be committed), so none of the steps' changes were saved
+    for (const stepResult of stepResults) {
+      if (stepResult.status !== ProcessorStatus.Succeeded) continue
+      stepResult.status = ProcessorStatus.Failed
+      stepResult.error = `Changes were rolled back: ${run.error}`
+    }
+  }
+  await manager.save(stepResults)
 
-  const blockHeight = block.height
-  const blockTimestamp = block.timestamp
+  run.finishedAt = new Date()
+  run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime()
+  await manager.save(run)
 
-  // only run every n blocks
-  if (blockHeight % numBlocksPerExecution !== 0) return
+  await deleteStaleProcessorRuns(manager)
+  await deleteStaleRpcHealthChecks(manager)
+}
 
-  // skip blocks older than n
-  if (Date.now() - blockTimestamp > skipBlocksOlderThan) return
+/**
+ * Executes each of the processor steps in turn, and adds the result of each step to `stepResults`.
+ */
+async function executeProcessorSteps(context: ProcessorContext, run: ProcessorRun, stepResults: ProcessorStepResult[]) {
+  for (const [index, executeStep] of processorSteps.entries()) {
+    if (isShuttingDown) {
+      context.log.info(`Skipping remaining steps from step ${index + 1}: shutting down`)
+      break
+    }
 
-  log.debug(`Executing on block ${blockHeight}: block is recent and a multiple of ${numBlocksPerExecution}`)
+    const stepResult = new ProcessorStepResult({
+      id: `${run.id}-${index + 1}`,
+      run,
+      index: index + 1,
+      name: executeStep.name,
+      startedAt: new Date(),
+      status: ProcessorStatus.Running,
+    })
 
-  for (const [index, executeStep] of processorSteps.entries()) {
-    log.info(`Executing step ${index + 1}: ${startCase(executeStep.name)}`)
-    await executeStep(context)
+    const unsuccessfulDependencies = (processorStepDependencies[executeStep.name] ?? []).filter(
+      (dependency) =>
+        !stepResults.some(({ name, status }) => name === dependency && status === ProcessorStatus.Succeeded)
+    )
+    if (unsuccessfulDependencies.length > 0) {
+      stepResult.status = ProcessorStatus.Skipped
+      stepResult.error = `Depends on unsuccessful steps: ${unsuccessfulDependencies.join(', ')}`
+      context.log.warn(`Skipping step ${index + 1}: ${startCase(executeStep.name)}: ${stepResult.error}`)
+      stepResult.finishedAt = stepResult.startedAt
+      stepResult.durationMs = 0
+      stepResults.push(stepResult)
+      continue
+    }
+
+    context.log.info(`Executing step ${index + 1}: ${startCase(executeStep.name)}`)
+
+    try {
+      // run each step in a nested transaction (a savepoint),
+      // so that a failing step only rolls back its own changes and the remaining steps can still run
+      await context.store.transaction((store) => executeStep({ ...context, store }))
+      stepResult.status = ProcessorStatus.Succeeded
+    } catch (error) {
+      context.log.error(error as Error, `Step ${index + 1} failed: ${startCase(executeStep.name)}`)
+      stepResult.status = ProcessorStatus.Failed
+      stepResult.error = errorMessage(error)
+    }
+
+    stepResult.finishedAt = new Date()
+    stepResult.durationMs = stepResult.finishedAt.getTime() - stepResult.startedAt.getTime()
+
+    stepResults.push(stepResult)
   }
-})
+}
 
-// indexer breaks if we don't subscribe to at least one type of event in addition to the postBlock hook
-processor.addEventHandler('Balances.Transfer', async () => {})
+async function deleteStaleProcessorRuns(store: EntityManager) {
+  const staleRuns = await store.find(ProcessorRun, {
+    where: { startedAt: LessThan(new Date(Date.now() - processorRunRetentionMs)) },
+  })
+  if (staleRuns.length < 1) return
 
-// run the processor on start
-processor.run()
+  const staleStepResults = await store.find(ProcessorStepResult, {
+    where: { run: { id: In(staleRuns.map(({ id }) => id)) } },
+  })
+
+  await store.remove(staleStepResults)
+  await store.remove(staleRuns)
+}
 
 //
 // processor steps
@@ -105,32 +312,102 @@ const processorSharedData: {
   githubChains: GithubChain[]
   githubEvmNetworks: GithubEvmNetwork[]
   githubTokens: GithubToken[]
-} = { githubChains: [], githubEvmNetworks: [], githubTokens: [] }
-
-const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Promise<void>> = [
-  async function fetchDataFromGithub() {
-    // fetch chains, evmNetworks and tokens from chaindata github repo
-    const [githubChains, githubEvmNetworks, githubTokens] = await Promise.all([
-      (
-        await Promise.all([
-          axios.get(githubChainsUrl).then((response) => response.data),
-          axios
-            .get(githubTestnetChainsUrl)
-            .then((response) => response.data)
-            .then((data) => data.map((chain: GithubChain) => ({ ...chain, isTestnet: true }))),
-        ])
-      ).flatMap((chains) => chains),
-      axios.get(githubEvmNetworksUrl).then((response) => response.data),
-      axios.get(githubTokensUrl).then((response) => response.data),
+  // the ids of the chaindata entries which failed validation, whose stored entities are kept as they are
+  invalidGithubChainIds: string[]
+  invalidGithubEvmNetworkIds: string[]
+  invalidGithubTokenIds: string[]
+  updatedChainIds: string[]
+  onChainParaIds: Record<string, number>
+  relayChainIds: string[]
+  liquidCrowdloanCurrencyIdIndexes: Record<string, number>
+  dexChainIds: string[]
+} = {
+  githubChains: [],
+  githubEvmNetworks: [],
+  githubTokens: [],
+  invalidGithubChainIds: [],
+  invalidGithubEvmNetworkIds: [],
+  invalidGithubTokenIds: [],
+  updatedChainIds: [],
+  onChainParaIds: {},
+  relayChainIds: [],
+  liquidCrowdloanCurrencyIdIndexes: {},
+  dexChainIds: [],
+}
+
+// the subset of a BlockHandlerContext which the processor steps use, so that they can also run without a block
+type ProcessorContext = { store: EntityManager; log: Logger }
+
+// the steps which each step reads processorSharedData from
+// a step is skipped when any of these steps didn't succeed, so that it doesn't run on the empty or stale data
+// which is left in processorSharedData by a previous run
+const processorStepDependencies: Record<string, string[]> = {
+  updateChainsFromGithub: ['fetchDataFromGithub'],
+  updateChainData: ['fetchDataFromGithub'],
+  updateParachainsFromRelays: ['fetchDataFromGithub', 'updateChainData'],
+  updateLiquidCrowdloanAndDexTokens: ['fetchDataFromGithub', 'updateChainData'],
+  updateEvmNetworksFromGithub: ['fetchDataFromGithub'],
+  updateTokensFromGithub: ['fetchDataFromGithub'],
+  updateTokenRates: ['fetchDataFromGithub'],
+}
+
+const processorSteps: Array<(context: ProcessorContext) => Promise<void>> = [
+  async function fetchDataFromGithub({ store, log }) {
+    log.debug(`Fetching chaindata from ${chaindataSource.description}`)
+
+    // fetch chains, evmNetworks and tokens from chaindata source (github repo by default)
+    // and drop any entries which don't match the expected shape
+    const [chains, testnetChains, evmNetworks, tokens] = await Promise.all([
+      chaindataSource.fetchFile('chaindata.json').then((data) => validateGithubChains('chaindata.json', data)),
+      chaindataSource
+        .fetchFile('testnets-chaindata.json')
+        .then((data) => validateGithubChains('testnets-chaindata.json', data)),
+      chaindataSource
+        .fetchFile('evm-networks.json')
+        .then((data) => validateGithubEvmNetworks('evm-networks.json', data)),
+      chaindataSource.fetchFile('tokens.json').then((data) => validateGithubTokens('tokens.json', data)),
     ])
 
+    const chaindataIssues = [chains, testnetChains, evmNetworks, tokens].flatMap(({ issues }) => issues)
+    for (const issue of chaindataIssues) log.warn(`Skipping invalid chaindata entry ${JSON.stringify(issue)}`)
+
+    // replace the issues from the previous run, so that the api only shows the issues with the current chaindata
+    await store.remove(await store.find(ChaindataIssue))
+    await store.save(
+      chaindataIssues.map(
+        ({ file, index, id, field, reason }) =>
+          new ChaindataIssue({
+            id: `${file}-${index}-${field ?? 'entry'}`,
+            file,
+            index,
+            entryId: id ?? null,
+            field: field ?? null,
+            reason,
+          })
+      )
+    )
+
+    const githubChains = [
+      ...chains.valid,
+      ...testnetChains.valid.map((chain) => ({ ...chain, isTestnet: true as const })),
+    ]
+    const githubEvmNetworks = evmNetworks.valid
+    const githubTokens = tokens.valid
+
     processorSharedData.githubChains = githubChains
     processorSharedData.githubEvmNetworks = githubEvmNetworks
     processorSharedData.githubTokens = githubTokens
+    processorSharedData.invalidGithubChainIds = [...chains.invalidIds, ...testnetChains.invalidIds]
+    processorSharedData.invalidGithubEvmNetworkIds = evmNetworks.invalidIds
+    processorSharedData.invalidGithubTokenIds = tokens.invalidIds
   },
 
-  async function updateChainsFromGithub({ store }) {
-    const deletedChainIdsMap = Object.fromEntries((await store.find(Chain)).map((chain) => [chain.id, true]))
+  async function updateChainsFromGithub({ store, log }) {
+    const storedChains = await store.find(Chain)
+    const deletedChainIdsMap = Object.fromEntries(storedChains.map((chain) => [chain.id, true]))
+
+    // don't delete chains whose chaindata entry is invalid, keep the last valid version of them instead
+    for (const id of processorSharedData.invalidGithubChainIds) delete deletedChainIdsMap[id]
 
     // add github chains to the db
     for (const githubChain of processorSharedData.githubChains) {
@@ -147,10 +424,14 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
       chain.subscanUrl = githubChain.subscanUrl
       chain.rpcs = (githubChain.rpcs || []).map((url) => new SubstrateRpc({ url, isHealthy: false }))
 
-      // only set relay and paraId if both exist on githubChain
-      // TODO: Figure out parachains automatically
-      chain.paraId = relay !== null && githubChain.paraId ? githubChain.paraId : null
-      chain.relay = relay !== null && githubChain.paraId ? relay : null
+      // only set relay and paraId if both exist on githubChain, otherwise keep the values which
+      // updateParachainsFromRelays found on-chain in a previous run
+      // these are replaced with the on-chain values (where they can be found) by updateParachainsFromRelays,
+      // which also clears them once they're no longer in chaindata and no longer found on-chain
+      if (relay !== null && githubChain.paraId) {
+        chain.paraId = githubChain.paraId
+        chain.relay = relay
+      }
 
       // save
       await store.save(chain)
@@ -158,49 +439,67 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
 
     // delete chains from db if they're no longer in github chaindata
     const deletedChainIds = Object.keys(deletedChainIdsMap)
-    if (deletedChainIds.length > 0) await store.delete(Chain, deletedChainIds)
+    const refusal = refuseMassDeletion('chains', storedChains.length, deletedChainIds.length, massDeletionLimits)
+    if (refusal !== null) log.warn(`${refusal}: ${deletedChainIds.join(', ')}`)
+    else if (deletedChainIds.length > 0) {
+      await deleteChainRuntimeVersions(store, deletedChainIds)
+      // parachains keep their relay between runs, so unlink them from any relays which are about to be deleted
+      await store.query(`UPDATE "chain" SET "relay_id" = NULL, "para_id" = NULL WHERE "relay_id" = ANY($1)`, [
+        deletedChainIds,
+      ])
+      await store.delete(Chain, deletedChainIds)
+    }
   },
 
   async function updateChainData({ store, log }) {
     const chains = await store.find(Chain, { loadRelationIds: { disableMixedMap: true } })
+    const githubChainsMap = Object.fromEntries(processorSharedData.githubChains.map((chain) => [chain.id, chain]))
+
+    processorSharedData.updatedChainIds = []
+    processorSharedData.onChainParaIds = {}
+    processorSharedData.relayChainIds = []
+    processorSharedData.liquidCrowdloanCurrencyIdIndexes = {}
+    processorSharedData.dexChainIds = []
 
     await pMap(
       chains,
       async (chain, index): Promise<void> => {
         log.info(`Updating chain ${index + 1} of ${chains.length} (${chain.id})`)
 
-        // get health status of rpcs
-        await Promise.all(
+        // get health status + genesis hashes of rpcs
+        const genesisHashes: Array<string | null> = await Promise.all(
           chain.rpcs.map(async (rpc) => {
             // try to connect to rpc
             let socket: WsProvider | null = null
             try {
-              const autoConnectMs = 500
-              socket = new WsProvider(
-                rpc.url,
-                autoConnectMs,
-                {
-                  // our extension will send this header with every request
-                  // some RPCs reject this header, in which case we want to set isHealthy to false
-                  Origin: 'chrome-extension://abpofhpcakjhnpklgodncneklaobppdc',
-                },
-                // doesn't matter what this is as long as it's a bit larger than chainRpcTimeout
-                // if it's not set then `new WsProvider` will throw an uncatchable error after 60s
-                chainRpcTimeout * 99
-              )
+              socket = connectToRpc(rpc.url, chainRpcTimeout)
 
               // fetch genesis hash
-              await sendWithTimeout(socket, [['chain_getBlockHash', [0]]], chainRpcTimeout)
+              const [genesisHash] = await sendWithTimeout(socket, [['chain_getBlockHash', [0]]], chainRpcTimeout)
+
+              // fetch latest header, now that we're connected we can use this request to measure latency
+              const requestStartedAt = Date.now()
+              const [header] = await sendWithTimeout(socket, [['chain_getHeader', []]], chainRpcTimeout)
+              rpc.latencyMs = Date.now() - requestStartedAt
+
+              const blockNumber = parseInt(header?.number)
+              rpc.blockNumber = Number.isNaN(blockNumber) ? null : blockNumber
 
               // set healthy
               rpc.isHealthy = true
+              rpc.unhealthyReason = null
+              return typeof genesisHash === 'string' ? genesisHash : null
             } catch (error) {
               // set unhealthy
               log.warn(`${chain.id} rpc ${rpc.url} is down ${JSON.stringify(error)}`)
               rpc.isHealthy = false
+              rpc.unhealthyReason = rpcUnhealthyReason(error)
+              return null
             } finally {
+              rpc.lastCheckedAt = new Date()
+
               try {
-                socket !== null && (await socket.disconnect())
+                socket !== null && (await disconnectFromRpc(socket))
                 socket = null
               } catch (error) {
                 log.error(`Disconnect error ${JSON.stringify(error)}`)
@@ -209,9 +508,25 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
           })
         )
 
+        // set any rpcs which serve a different chain, or which lag behind the other rpcs, to unhealthy
+        const { genesisHash: servedGenesisHash, inconsistentRpcs } = markInconsistentSubstrateRpcs(
+          chain.rpcs,
+          genesisHashes,
+          chain.genesisHash,
+          maxRpcBlockLag
+        )
+        for (const rpc of inconsistentRpcs) log.warn(`${chain.id} rpc ${rpc.url} is unhealthy: ${rpc.unhealthyReason}`)
+
+        // a majority of the rpcs serve a new genesis hash and none serve the stored one (e.g. a testnet has been reset)
+        if (servedGenesisHash !== null && chain.genesisHash && servedGenesisHash !== chain.genesisHash) {
+          log.warn(`${chain.id} genesis hash changed from ${chain.genesisHash} to ${servedGenesisHash}`)
+          chain.genesisHash = servedGenesisHash
+        }
+
         // set chain unhealthy if there are no healthy rpcs
         const healthyRpcUrls = chain.rpcs.filter(({ isHealthy }) => isHealthy).map(({ url }) => url)
         chain.isHealthy = healthyRpcUrls.length > 0
+        await recordRpcHealth(store, { chainId: chain.id }, chain.rpcs)
         await store.save(chain)
 
         // fetch chaindata from healthy rpcs
@@ -220,32 +535,22 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
           // try to connect to chain
           let socket: WsProvider | null = null
           try {
-            const autoConnectMs = 500
-            socket = new WsProvider(
-              healthyRpcUrls[(attempt - 1) % healthyRpcUrls.length],
-              autoConnectMs,
-              {
-                // our extension will send this header with every request
-                // some RPCs reject this header, in which case we want to set isHealthy to false
-                Origin: 'chrome-extension://abpofhpcakjhnpklgodncneklaobppdc',
-              },
-              // doesn't matter what this is as long as it's a bit larger than chainRpcTimeout
-              // if it's not set then `new WsProvider` will throw an uncatchable error after 60s
-              chainRpcTimeout * 99
-            )
+            socket = connectToRpc(healthyRpcUrls[(attempt - 1) % healthyRpcUrls.length], chainRpcTimeout)
 
             // fetch rpc data
-            const [genesisHash, runtimeVersion, metadataRpc, chainName, chainProperties] = await sendWithTimeout(
-              socket,
-              [
-                ['chain_getBlockHash', [0]],
-                ['state_getRuntimeVersion', []],
-                ['state_getMetadata', []],
-                ['system_chain', []],
-                ['system_properties', []],
-              ],
-              chainRpcTimeout
-            )
+            const [genesisHash, runtimeVersion, metadataRpc, chainName, chainProperties, parachainId] =
+              await sendWithTimeout(
+                socket,
+                [
+                  ['chain_getBlockHash', [0]],
+                  ['state_getRuntimeVersion', []],
+                  ['state_getMetadata', []],
+                  ['system_chain', []],
+                  ['system_properties', []],
+                  ['state_getStorage', [parachainIdStorageKey]],
+                ],
+                chainRpcTimeout
+              )
 
             // deconstruct rpc data
             const { specName, specVersion, implName } = runtimeVersion
@@ -256,6 +561,13 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
             metadata.registry.setMetadata(metadata)
 
             const constants = decorateConstants(metadata.registry, metadata.asLatest, metadata.version)
+
+            // keep track of relay chains and parachains, so that we can match them up in updateParachainsFromRelays
+            const palletNames = metadata.asLatest.pallets.map(({ name }) => name.toString())
+            if (relayChainPallets.every((pallet) => palletNames.includes(pallet)))
+              processorSharedData.relayChainIds.push(chain.id)
+            const onChainParaId = decodeParachainId(parachainId)
+            if (onChainParaId !== null) processorSharedData.onChainParaIds[chain.id] = onChainParaId
             const ss58Prefix = metadata.registry.chainSS58
 
             const currencyIdDef = (metadata.asLatest.lookup?.types || []).find(
@@ -281,9 +593,47 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
                 .map(([name, stateKey]) => [name, twox64Concat(stateKey)])
             )
 
-            const tokenSymbol = tokenSymbolWorkarounds(chain.id)?.symbols || chainTokenSymbol
-            const tokenDecimals = tokenSymbolWorkarounds(chain.id)?.decimals || chainTokenDecimals
-            const tokenStateKeys = tokenSymbolWorkarounds(chain.id)?.stateKeys || tokenStateKeyLookup
+            // overrides from chaindata take precedence over the chain's system_properties and metadata
+            // the built-in overrides of a chain are only used when chaindata has no overrides for it
+            const overrides = githubChainsMap[chain.id]?.overrides ?? defaultChainOverrides[chain.id]
+            const tokenSymbol = overrides?.tokenSymbols ?? chainTokenSymbol
+            const tokenDecimals = overrides?.tokenDecimals ?? chainTokenDecimals
+            const tokenStateKeys = overrides?.ormlTokens
+              ? mapValues(overrides.ormlTokens, ({ type, value }) => ormlStateKey(type, value))
+              : tokenStateKeyLookup
+
+            // fetch the currencies in the asset registry (e.g. foreign assets) along with their existential deposits
+            const registeredCurrencies = currencyIdDef
+              ? await fetchRegisteredCurrencies(
+                  socket,
+                  metadata,
+                  metadata.registry.createLookupType(currencyIdDef.id),
+                  chainRpcTimeout
+                ).catch((error) => {
+                  log.warn(`${chain.id} failed to fetch asset registry ${JSON.stringify(error)}`)
+                  return null
+                })
+              : []
+            const registeredCurrenciesByStateKey = Object.fromEntries(
+              (registeredCurrencies ?? []).map((currency) => [currency.stateKey, currency])
+            )
+
+            const ormlCurrencies: Array<{
+              symbol: string
+              decimals: number
+              stateKey: string
+              currencyIdKey: string | null
+            }> = []
+            for (const [index, symbol] of (Array.isArray(tokenSymbol) ? tokenSymbol : []).entries()) {
+              const stateKey = tokenStateKeys[symbol]
+              if (stateKey === undefined) continue
+
+              ormlCurrencies.push({ symbol, decimals: tokenDecimals[index], stateKey, currencyIdKey: null })
+            }
+            for (const currency of registeredCurrencies ?? []) {
+              if (ormlCurrencies.some(({ stateKey }) => stateKey === currency.stateKey)) continue
+              ormlCurrencies.push(currency)
+            }
 
             const existingTokens = (
               await store.find(Token, {
@@ -291,17 +641,28 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
                 loadRelationIds: { disableMixedMap: true },
               })
             ).filter((token) => token.squidImplementationDetail.isTypeOf === 'OrmlToken')
-            const deletedTokensMap = Object.fromEntries(existingTokens.map((token) => [token.id, token]))
-            for (const [index, symbol] of (Array.isArray(tokenSymbol) ? tokenSymbol : []).entries()) {
-              const stateKey = tokenStateKeys[symbol]
-              if (stateKey === undefined) continue
-
-              const token = await getOrCreateToken(store, OrmlToken, ormlTokenId(chain.id, symbol))
+            // don't delete any tokens when we failed to fetch the asset registry, as it's likely that the
+            // tokens we'd delete are registered currencies
+            const deletedTokensMap =
+              registeredCurrencies === null ? {} : Object.fromEntries(existingTokens.map((token) => [token.id, token]))
+            const savedTokenIds = new Set<string>()
+            for (const { symbol, decimals, stateKey, currencyIdKey } of ormlCurrencies) {
+              // registered currencies other than Token(TokenSymbol) often share their symbol with another currency
+              // (e.g. a foreign asset and a Token with the same symbol), so their id includes their CurrencyId
+              const token = await getOrCreateToken(store, OrmlToken, ormlTokenId(chain.id, symbol, currencyIdKey))
+              if (savedTokenIds.has(token.id)) {
+                log.warn(`${chain.id} skipping orml currency ${stateKey}, id ${token.id} is already in use`)
+                continue
+              }
+              savedTokenIds.add(token.id)
               delete deletedTokensMap[token.id]
 
+              // the existential deposits of orml currencies are only known for the currencies in the asset registry
+              const existentialDeposit = registeredCurrenciesByStateKey[stateKey]?.existentialDeposit
+
               token.symbol = symbol
-              token.decimals = tokenDecimals[index]
-              // token.existentialDeposit = null
+              token.decimals = decimals
+              token.existentialDeposit = existentialDeposit !== undefined ? BigInt(existentialDeposit) : null
               token.stateKey = stateKey
               token.chain = chain.id
 
@@ -311,6 +672,16 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
               await store.remove(deletedToken)
             }
 
+            if (palletNames.includes('Assets')) await updateAssetsTokens(store, log, socket, chain, metadata)
+
+            // liquid crowdloan tokens are named after the native token of the chain's relay, so they (and the dex
+            // tokens which can be named after them) are updated in updateLiquidCrowdloanAndDexTokens, once the chain
+            // has been matched up with its relay in updateParachainsFromRelays
+            const liquidCrowdloanCurrencyIdIndex = currencyIdLookup['LiquidCrowdloan']
+            if (liquidCrowdloanCurrencyIdIndex !== undefined)
+              processorSharedData.liquidCrowdloanCurrencyIdIndexes[chain.id] = liquidCrowdloanCurrencyIdIndex
+            if (palletNames.includes('Dex')) processorSharedData.dexChainIds.push(chain.id)
+
             // re-load chain with new token relations so we don't set them back to null again
             chain = await getOrCreate(store, Chain, chain.id)
 
@@ -318,30 +689,42 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
               ? constants.balances.existentialDeposit.toString()
               : null
 
-            const nativeTokenSymbol = Array.isArray(tokenSymbol) ? tokenSymbol[0] : tokenSymbol
+            const nativeTokenSymbol =
+              overrides?.nativeTokenSymbol ?? (Array.isArray(tokenSymbol) ? tokenSymbol[0] : tokenSymbol)
+            const nativeTokenIndex = Array.isArray(tokenSymbol)
+              ? Math.max(tokenSymbol.indexOf(nativeTokenSymbol), 0)
+              : 0
             const nativeToken = await getOrCreateToken(store, NativeToken, nativeTokenId(chain.id, nativeTokenSymbol))
             nativeToken.symbol = nativeTokenSymbol
-            nativeToken.decimals = Array.isArray(tokenDecimals) ? tokenDecimals[0] : tokenDecimals
+            nativeToken.decimals = Array.isArray(tokenDecimals) ? tokenDecimals[nativeTokenIndex] : tokenDecimals
             nativeToken.existentialDeposit = existentialDeposit === null ? null : BigInt(existentialDeposit)
             await saveToken(store, nativeToken)
 
             // set values
             chain.genesisHash = genesisHash
             chain.prefix =
-              typeof ss58Prefix === 'number' ? ss58Prefix : typeof ss58Format === 'number' ? ss58Format : 42
+              overrides?.ss58Prefix ??
+              (typeof ss58Prefix === 'number' ? ss58Prefix : typeof ss58Format === 'number' ? ss58Format : 42)
             chain.chainName = chainName
             chain.implName = implName
             chain.specName = specName
             chain.specVersion = specVersion
+            Object.assign(chain, detectChainCapabilities(metadata))
             chain.nativeToken = await getOrCreate(store, Token, nativeToken.id)
 
             await store.save(chain)
+
+            // keep track of runtime upgrades
+            if (await recordRuntimeVersion(store, chain, runtimeVersion, metadataRpc))
+              log.info(`${chain.id} runtime version ${specName} ${specVersion} recorded`)
+
+            processorSharedData.updatedChainIds.push(chain.id)
             return
           } catch (error) {
             log.warn(`${chain.id} attempt ${attempt} failed ${JSON.stringify(error)}`)
           } finally {
             try {
-              socket !== null && (await socket.disconnect())
+              socket !== null && (await disconnectFromRpc(socket))
               socket = null
             } catch (error) {
               log.error(`Disconnect error ${JSON.stringify(error)}`)
@@ -359,7 +742,167 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
     )
   },
 
-  async function updateEvmNetworksFromGithub({ store }) {
+  async function updateParachainsFromRelays({ store, log }) {
+    const { githubChains, updatedChainIds, onChainParaIds, relayChainIds } = processorSharedData
+
+    const chains = await store.find(Chain, { loadRelationIds: { disableMixedMap: true } })
+    const relays = chains.filter(({ id, isHealthy }) => isHealthy && relayChainIds.includes(id))
+    const parachains = chains.filter(({ id }) => typeof onChainParaIds[id] === 'number')
+
+    // chains which have a relay and paraId in chaindata keep them when they can't be found on-chain,
+    // any other chain only keeps the relay and paraId which were found on-chain
+    const hasChaindataRelay = (chain: Chain) => {
+      const githubChain = githubChains.find(({ id }) => id === chain.id)
+      return typeof githubChain?.relay?.id === 'string' && typeof githubChain.paraId === 'number'
+    }
+    const unlinkRelay = async (chain: Chain, reason: string) => {
+      log.warn(`${chain.id} unlinking relay ${chain.relay?.id}: ${reason}`)
+      chain.paraId = null
+      chain.relay = null
+      await store.save(chain)
+    }
+
+    // chains which were updated this run, but which aren't a parachain (anymore)
+    for (const chain of chains) {
+      if (!chain.relay || hasChaindataRelay(chain)) continue
+      if (!updatedChainIds.includes(chain.id) || typeof onChainParaIds[chain.id] === 'number') continue
+
+      await unlinkRelay(chain, 'no paraId on-chain')
+    }
+
+    // fetch the paras which are registered on each relay
+    const relayParaIds: Record<string, Set<number>> = Object.fromEntries(
+      (
+        await Promise.all(
+          relays.map(async (relay) => {
+            try {
+              const paraIds = await withHealthyRpc(relay.rpcs, chainRpcTimeout, (socket) =>
+                fetchRegisteredParaIds(socket, chainRpcTimeout)
+              )
+              return [[relay.id, paraIds] as const]
+            } catch (error) {
+              log.warn(`${relay.id} failed to fetch registered paras ${JSON.stringify(error)}`)
+              return []
+            }
+          })
+        )
+      ).flat()
+    )
+
+    // checks whether the latest head of paraId on the relay is a block on the parachain
+    const isParaHeadOnChain = async (relay: Chain, parachain: Chain, paraId: number) => {
+      try {
+        const head = await withHealthyRpc(relay.rpcs, chainRpcTimeout, (socket) =>
+          fetchParaHead(socket, paraId, chainRpcTimeout)
+        )
+        if (head === null) return false
+
+        const [blockHash] = await withHealthyRpc(parachain.rpcs, chainRpcTimeout, (socket) =>
+          sendWithTimeout(socket, [['chain_getBlockHash', [head.number]]], chainRpcTimeout)
+        )
+        return blockHash === head.hash
+      } catch (error) {
+        log.warn(`${parachain.id} failed to compare para head with ${relay.id} ${JSON.stringify(error)}`)
+        return false
+      }
+    }
+
+    const mismatches: ChaindataMismatch[] = []
+    await pMap(
+      parachains,
+      async (parachain) => {
+        const paraId = onChainParaIds[parachain.id]
+
+        // find the relay this parachain is registered on
+        // e.g. a paraId might be registered on both polkadot and kusama, in which case we compare the para heads
+        let candidates = relays.filter((relay) => relayParaIds[relay.id]?.has(paraId))
+        const sameNetworkCandidates = candidates.filter(({ isTestnet }) => isTestnet === parachain.isTestnet)
+        if (sameNetworkCandidates.length > 0) candidates = sameNetworkCandidates
+        if (candidates.length > 1) {
+          const matches = await Promise.all(candidates.map((relay) => isParaHeadOnChain(relay, parachain, paraId)))
+          candidates = candidates.filter((_, index) => matches[index])
+        }
+
+        // flag any differences between chaindata and on-chain values
+        const githubChain = githubChains.find(({ id }) => id === parachain.id)
+        const flagMismatch = (field: 'paraId' | 'relay', chaindataValue: string, onChainValue: string) => {
+          const file = githubChain?.isTestnet ? 'testnets-chaindata.json' : 'chaindata.json'
+          log.warn(`${parachain.id} ${field} mismatch: chaindata has ${chaindataValue}, on-chain is ${onChainValue}`)
+          mismatches.push(
+            new ChaindataMismatch({
+              id: `${file}-${parachain.id}-${field}`,
+              file,
+              entryId: parachain.id,
+              field,
+              chaindataValue,
+              onChainValue,
+            })
+          )
+        }
+        if (typeof githubChain?.paraId === 'number' && githubChain.paraId !== paraId)
+          flagMismatch('paraId', String(githubChain.paraId), String(paraId))
+
+        if (candidates.length !== 1) {
+          // the current relay was checked and no longer has this paraId registered
+          const currentRelayParaIds = parachain.relay ? relayParaIds[parachain.relay.id] : undefined
+          if (candidates.length < 1 && currentRelayParaIds?.has(paraId) === false && !hasChaindataRelay(parachain))
+            return await unlinkRelay(parachain, `paraId ${paraId} is not registered on it`)
+
+          log.warn(`${parachain.id} couldn't find relay for paraId ${paraId}, keeping its current relay`)
+          return
+        }
+        const [relay] = candidates
+
+        if (githubChain?.relay?.id && githubChain.relay.id !== relay.id)
+          flagMismatch('relay', githubChain.relay.id, relay.id)
+
+        parachain.paraId = paraId
+        parachain.relay = relay
+        await store.save(parachain)
+      },
+      { concurrency: processSubstrateChainsConcurrency }
+    )
+
+    // replace the chain mismatches from the previous run, so that the api only shows the current mismatches
+    await store.remove(
+      await store.find(ChaindataMismatch, { where: { file: In(['chaindata.json', 'testnets-chaindata.json']) } })
+    )
+    await store.save(mismatches)
+  },
+
+  async function updateLiquidCrowdloanAndDexTokens({ store, log }) {
+    const { liquidCrowdloanCurrencyIdIndexes, dexChainIds } = processorSharedData
+
+    const chains = (await store.find(Chain, { loadRelationIds: { disableMixedMap: true } })).filter(
+      ({ id }) => liquidCrowdloanCurrencyIdIndexes[id] !== undefined || dexChainIds.includes(id)
+    )
+
+    await pMap(
+      chains,
+      async (chain) => {
+        try {
+          await withHealthyRpc(chain.rpcs, chainRpcTimeout, async (socket) => {
+            const liquidCrowdloanCurrencyIdIndex = liquidCrowdloanCurrencyIdIndexes[chain.id]
+            if (liquidCrowdloanCurrencyIdIndex !== undefined)
+              await updateLiquidCrowdloanTokens(store, log, socket, chain, liquidCrowdloanCurrencyIdIndex)
+
+            if (!dexChainIds.includes(chain.id)) return
+
+            const [metadataRpc] = await sendWithTimeout(socket, [['state_getMetadata', []]], chainRpcTimeout)
+            const metadata: Metadata = new Metadata(new TypeRegistry(), metadataRpc)
+            metadata.registry.setMetadata(metadata)
+
+            await updateLiquidityProviderTokens(store, log, socket, chain, metadata)
+          })
+        } catch (error) {
+          log.warn(`${chain.id} failed to update liquid crowdloan and dex tokens ${JSON.stringify(error)}`)
+        }
+      },
+      { concurrency: processSubstrateChainsConcurrency }
+    )
+  },
+
+  async function updateEvmNetworksFromGithub({ store, log }) {
     const isStandaloneEvmNetwork = (evmNetwork: EvmNetwork | GithubEvmNetwork) =>
       evmNetwork instanceof EvmNetwork
         ? typeof evmNetwork.substrateChain?.id !== 'string'
@@ -373,12 +916,24 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
     const isInvalidEvmNetwork = (evmNetwork: EvmNetwork | GithubEvmNetwork) =>
       !isStandaloneEvmNetwork(evmNetwork) && !isSubstrateEvmNetwork(evmNetwork)
 
+    // evm networks whose chaindata entry is invalid (identified by their substrate chain id, or by their name)
+    // aren't deleted, the last valid version of them is kept instead
+    const { invalidGithubEvmNetworkIds } = processorSharedData
+    const isInvalidGithubEvmNetwork = (evmNetwork: EvmNetwork) => {
+      const githubId = isSubstrateEvmNetwork(evmNetwork) ? evmNetwork.substrateChain?.id : evmNetwork.name
+      return typeof githubId === 'string' && invalidGithubEvmNetworkIds.includes(githubId)
+    }
+
     const storeEvmNetworks = await store.find(EvmNetwork, { loadRelationIds: { disableMixedMap: true } })
     const deletedStandaloneEvmNetworkIdsMap = Object.fromEntries(
-      storeEvmNetworks.filter(isStandaloneEvmNetwork).map(({ id }) => [id, true])
+      storeEvmNetworks
+        .filter((evmNetwork) => isStandaloneEvmNetwork(evmNetwork) && !isInvalidGithubEvmNetwork(evmNetwork))
+        .map(({ id }) => [id, true])
     )
     const deletedSubstrateEvmNetworkIdsMap = Object.fromEntries(
-      storeEvmNetworks.filter(isSubstrateEvmNetwork).map(({ id }) => [id, true])
+      storeEvmNetworks
+        .filter((evmNetwork) => isSubstrateEvmNetwork(evmNetwork) && !isInvalidGithubEvmNetwork(evmNetwork))
+        .map(({ id }) => [id, true])
     )
     const deletedInvalidEvmNetworkIds = storeEvmNetworks.filter(isInvalidEvmNetwork).map(({ id }) => id)
 
@@ -441,34 +996,30 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
             evmNetwork.rpcs.map(async (rpc) => {
               // try to connect to rpc
               try {
-                const response = await axios.post(
-                  rpc.url,
-                  JSON.stringify({ method: 'eth_chainId', params: [], id: 1, jsonrpc: '2.0' }),
-                  {
-                    headers: {
-                      'Content-Type': 'application/json',
-                      // our extension will send this header with every request
-                      // some RPCs reject this header, in which case we want to set isHealthy to false
-                      Origin: 'chrome-extension://abpofhpcakjhnpklgodncneklaobppdc',
-                    },
-                  }
-                )
+                const requestStartedAt = Date.now()
+                const chainId = await sendEthereumRpcRequest(rpc.url, 'eth_chainId', [], chainRpcTimeout)
+                rpc.latencyMs = Date.now() - requestStartedAt
 
-                // check response status
-                if (response.status !== 200)
-                  throw new Error(`Non-200 response status (${response.status}) from ethereum rpc`)
+                const ethereumId = parseInt(chainId)
+                if (Number.isNaN(ethereumId)) throw new Error(`NaN response to eth_chainId: ${JSON.stringify(chainId)}`)
 
-                const ethereumId = parseInt(response.data.result)
-                if (Number.isNaN(ethereumId))
-                  throw new Error(`NaN response to eth_chainId: ${JSON.stringify(response.data)}`)
+                // the block number is informational, an rpc which only fails this request is still healthy
+                const blockNumber = parseInt(
+                  await sendEthereumRpcRequest(rpc.url, 'eth_blockNumber', [], chainRpcTimeout).catch(() => null)
+                )
+                rpc.blockNumber = Number.isNaN(blockNumber) ? null : blockNumber
 
                 // set healthy
                 rpc.isHealthy = true
+                rpc.unhealthyReason = null
                 return ethereumId.toString(10)
               } catch (error) {
                 // set unhealthy
                 rpc.isHealthy = false
+                rpc.unhealthyReason = rpcUnhealthyReason(error)
                 return null
+              } finally {
+                rpc.lastCheckedAt = new Date()
               }
             })
           )
@@ -481,7 +1032,13 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
             // set any rpcs with a different ethereumId to unhealthy
             ethereumIds.forEach((id, rpcIndex) => {
               if (id === evmNetwork.id) return
-              ;(evmNetwork.rpcs[rpcIndex] || {}).isHealthy = false
+
+              const rpc = evmNetwork.rpcs[rpcIndex]
+              if (!rpc) return
+
+              rpc.isHealthy = false
+              // rpcs which didn't respond already have a reason set
+              if (id !== null) rpc.unhealthyReason = 'wrong chain id'
             })
           }
 
@@ -491,6 +1048,8 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
 
           if (typeof evmNetwork.id !== 'string') return null
 
+          await recordRpcHealth(store, { evmNetworkId: evmNetwork.id }, evmNetwork.rpcs)
+
           isStandaloneEvmNetwork(evmNetwork) && delete deletedStandaloneEvmNetworkIdsMap[evmNetwork.id]
           isSubstrateEvmNetwork(evmNetwork) && delete deletedSubstrateEvmNetworkIdsMap[evmNetwork.id]
 
@@ -522,7 +1081,14 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
       ...Object.keys(deletedStandaloneEvmNetworkIdsMap),
       ...Object.keys(deletedSubstrateEvmNetworkIdsMap),
     ]
-    if (deletedEvmNetworkIds.length > 0) await store.delete(EvmNetwork, deletedEvmNetworkIds)
+    const refusal = refuseMassDeletion(
+      'evm networks',
+      storeEvmNetworks.length,
+      deletedEvmNetworkIds.length,
+      massDeletionLimits
+    )
+    if (refusal !== null) log.warn(`${refusal}: ${deletedEvmNetworkIds.join(', ')}`)
+    else if (deletedEvmNetworkIds.length > 0) await store.delete(EvmNetwork, deletedEvmNetworkIds)
   },
 
   async function updateSortIndexes({ store }) {
@@ -534,7 +1100,7 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
     await store.save(sorted)
   },
 
-  async function updateTokensFromGithub({ store }) {
+  async function updateTokensFromGithub({ store, log }) {
     const { githubTokens } = processorSharedData
 
     // rename / set coingeckoId for tokens
@@ -563,29 +1129,86 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
     )
     const deletedTokensMap = Object.fromEntries(existingErc20Tokens.map((token) => [token.id, token]))
 
-    for (const erc20 of githubTokens.filter(isErc20)) {
-      const evmNetwork = await store.findOne(EvmNetwork, {
-        where: { id: erc20.evmNetworkId?.toString() },
-        loadRelationIds: { disableMixedMap: true },
-      })
-      if (!evmNetwork) continue
+    // don't delete erc20 tokens whose chaindata entry is invalid, keep the last valid version of them instead
+    for (const id of processorSharedData.invalidGithubTokenIds) delete deletedTokensMap[id]
+
+    const erc20Entries = await pMap(
+      githubTokens.filter(isErc20),
+      async (erc20) => {
+        const evmNetwork = await store.findOne(EvmNetwork, {
+          where: { id: erc20.evmNetworkId?.toString() },
+          loadRelationIds: { disableMixedMap: true },
+        })
+        if (!evmNetwork) return null
+
+        // fetch symbol, decimals and name from the contract
+        const healthyRpcUrls = evmNetwork.rpcs.filter(({ isHealthy }) => isHealthy).map(({ url }) => url)
+        const onChain = await fetchErc20Metadata(healthyRpcUrls, erc20.contractAddress!, chainRpcTimeout).catch(
+          (error) => {
+            log.warn(`${evmNetwork.id} erc20 ${erc20.contractAddress} metadata fetch failed ${JSON.stringify(error)}`)
+            return null
+          }
+        )
+
+        return { erc20, evmNetwork, onChain }
+      },
+      { concurrency: fetchErc20MetadataConcurrency }
+    )
+
+    const mismatches: ChaindataMismatch[] = []
+    for (const entry of erc20Entries) {
+      if (entry === null) continue
+      const { erc20, evmNetwork, onChain } = entry
 
       const token = await getOrCreateToken(store, Erc20Token, erc20TokenId(evmNetwork.id, erc20.contractAddress))
       delete deletedTokensMap[token.id]
 
-      // TODO: Import erc20 abi and fetch `symbol` and `decimals` from the evm network rpc
-      token.symbol = erc20.symbol
-      token.decimals = erc20.decimals
+      // flag any differences between chaindata and on-chain values
+      for (const field of ['symbol', 'decimals'] as const) {
+        const githubValue = erc20[field]
+        const onChainValue = onChain?.[field]
+        if (githubValue === undefined || onChainValue === null || onChainValue === undefined) continue
+        if (githubValue === onChainValue) continue
+
+        log.warn(`${token.id} ${field} mismatch: chaindata has ${githubValue}, on-chain is ${onChainValue}`)
+        mismatches.push(
+          new ChaindataMismatch({
+            id: `tokens.json-${token.id}-${field}`,
+            file: 'tokens.json',
+            entryId: token.id,
+            field,
+            chaindataValue: String(githubValue),
+            onChainValue: String(onChainValue),
+          })
+        )
+      }
+
+      // explicit overrides take precedence over on-chain values, which take precedence over chaindata values
+      Object.assign(token, erc20TokenMetadata(erc20, onChain, token))
       token.coingeckoId = erc20.coingeckoId
       token.contractAddress = erc20.contractAddress
-      // TODO: Add support for erc20 tokens on substrate networks (e.g. acala)
-      // token.chain =
+      // erc20 tokens on an evm network which runs on a substrate chain (e.g. acala, astar, moonbeam)
+      // are also tokens of that substrate chain
+      token.chain = evmNetwork.substrateChain?.id ?? null
       token.evmNetwork = evmNetwork.id
 
       await saveToken(store, token)
     }
 
-    for (const deletedToken of Object.values(deletedTokensMap)) {
+    // replace the erc20 mismatches from the previous run, so that the api only shows the current mismatches
+    await store.remove(await store.find(ChaindataMismatch, { where: { file: 'tokens.json' } }))
+    await store.save(mismatches)
+
+    const deletedTokens = Object.values(deletedTokensMap)
+    const refusal = refuseMassDeletion(
+      'erc20 tokens',
+      existingErc20Tokens.length,
+      deletedTokens.length,
+      massDeletionLimits
+    )
+    if (refusal !== null) return log.warn(`${refusal}: ${deletedTokens.map(({ id }) => id).join(', ')}`)
+
+    for (const deletedToken of deletedTokens) {
       await store.remove(deletedToken)
     }
   },
@@ -624,7 +1247,7 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
     await store.save(updatedTokens)
   },
 
-  async function updateTokenRates({ store }) {
+  async function updateTokenRates({ store, log }) {
     const tokens = await store.find(Token, { loadRelationIds: { disableMixedMap: true } })
 
     const coingeckoIds = tokens
@@ -636,28 +1259,268 @@ const processorSteps: Array<(context: BlockHandlerContext<EntityManager>) => Pro
       })
       .filter((id): id is NonNullable<typeof id> => Boolean(id))
 
-    const idsSerialized = coingeckoIds.join(',')
-    const currenciesSerialized = coingeckoCurrencies.join(',')
-    const coingeckoPrices: Record<string, Record<string, number>> = await axios
-      .get(`${coingeckoApiUrl}/simple/price?ids=${idsSerialized}&vs_currencies=${currenciesSerialized}`)
-      .then((response) => response.data)
+    // tokens without a coingecko id of their own (e.g. xcDOT, LCDOT, bridged USDC) can take their rates from
+    // the token they track, this takes precedence over any rates from the token's own coingecko id
+    const { resolved: priceAliases, cyclicTokenIds } = resolvePriceAliases(
+      Object.fromEntries(
+        processorSharedData.githubTokens.flatMap((githubToken) => {
+          const id = githubTokenId(githubToken)
+          return id !== undefined && githubToken.priceFrom ? [[id, githubToken.priceFrom]] : []
+        })
+      )
+    )
+    if (cyclicTokenIds.length > 0) log.warn(`Ignoring cyclic price aliases of ${cyclicTokenIds.join(', ')}`)
 
-    const updatedTokens = tokens.map((token) => {
-      token.squidImplementationDetail.rates = null
-      if (token.squidImplementationDetail.isTestnet) return token
-      if (!token.squidImplementationDetail.coingeckoId) return token
+    const coingeckoPrices = await fetchTokenPrices(priceProviders, coingeckoIds, priceCurrencies, log)
 
-      const rates = coingeckoPrices[token.squidImplementationDetail.coingeckoId]
-      if (!rates) return token
+    const updatedAt = new Date()
+    const [pastRates24h, pastRates7d] = await Promise.all([
+      fetchPastTokenRates(store, new Date(updatedAt.getTime() - 86_400_000), tokenRateSnapshotIntervalMs),
+      fetchPastTokenRates(store, new Date(updatedAt.getTime() - 7 * 86_400_000), tokenRateSnapshotIntervalMs),
+    ])
+    const updatedTokens = tokens.map((token) => {
+      if (token.squidImplementationDetail.isTestnet) {
+        token.squidImplementationDetail.rates = null
+        return token
+      }
+      // the rates of tokens with a price alias are updated below, once the rates of their reference are known
+      if (priceAliases[token.id]) return token
+      if (!token.squidImplementationDetail.coingeckoId) {
+        token.squidImplementationDetail.rates = null
+        return token
+      }
 
-      token.squidImplementationDetail.rates = new TokenRates()
-      for (const currency of coingeckoCurrencies) {
-        token.squidImplementationDetail.rates[currency] = rates[currency]
+      // keep the last-known rates when the price providers have no rates (or only some of the rates) for this token
+      // right now, so that a failed or partial price update doesn't blank out the token's rates
+      const fetched = coingeckoPrices[token.squidImplementationDetail.coingeckoId]
+      const rates = updatedTokenRates(token.squidImplementationDetail.rates, fetched, updatedAt)
+      if (fetched && rates) {
+        rates.change24h = tokenRatesChange(rates, pastRates24h[token.id])
+        rates.change7d = tokenRatesChange(rates, pastRates7d[token.id])
       }
+      token.squidImplementationDetail.rates = rates
 
       return token
     })
 
+    const updatedTokensMap = Object.fromEntries(updatedTokens.map((token) => [token.id, token]))
+    for (const [tokenId, { tokenId: referenceId, multiplier }] of Object.entries(priceAliases)) {
+      const token = updatedTokensMap[tokenId]
+      if (!token || token.squidImplementationDetail.isTestnet) continue
+
+      const reference = updatedTokensMap[referenceId]
+      if (!reference) log.warn(`${tokenId} takes its price from ${referenceId}, which doesn't exist`)
+      else if (reference.squidImplementationDetail.isTestnet)
+        log.warn(`${tokenId} takes its price from ${referenceId}, which is a testnet token`)
+
+      // keep the last-known rates of the token, marked as stale, when its reference has no rates (anymore)
+      const referenceRates = reference?.squidImplementationDetail.rates
+      if (referenceRates) token.squidImplementationDetail.rates = aliasTokenRates(referenceRates, multiplier)
+      else if (token.squidImplementationDetail.rates) token.squidImplementationDetail.rates.isStale = true
+    }
+
     await store.save(updatedTokens)
+
+    await recordTokenRateSnapshots(store, updatedTokens, tokenRateSnapshotIntervalMs)
+    await deleteStaleTokenRateSnapshots(store, tokenRateSnapshotRetentionMs)
   },
 ]
+
+/**
+ * Creates / updates a token for each asset in the `pallet-assets` storage of `chain`,
+ * and removes the tokens of any assets which have been destroyed on-chain.
+ *
+ * Assets which are registered as xcm assets in `pallet-asset-manager` (e.g. on moonbeam) are saved as xc tokens,
+ * all other assets are saved as assets tokens.
+ *
+ * Failures are logged rather than thrown, so that the rest of the chain's data can still be updated.
+ */
+async function updateAssetsTokens(
+  store: EntityManager,
+  log: Logger,
+  socket: WsProvider,
+  chain: Chain,
+  metadata: Metadata
+) {
+  const fetched = await Promise.all([
+    fetchAssets(socket, metadata, chainRpcTimeout),
+    fetchXcAssetIds(socket, metadata, chainRpcTimeout),
+  ]).catch((error) => {
+    log.warn(`${chain.id} failed to fetch pallet-assets tokens ${JSON.stringify(error)}`)
+    return null
+  })
+  if (fetched === null) return
+  const [assets, xcAssetIds] = fetched
+
+  const existingTokens = (
+    await store.find(Token, {
+      where: { squidImplementationDetailChain: { id: chain.id } },
+      loadRelationIds: { disableMixedMap: true },
+    })
+  ).filter((token) => ['AssetsToken', 'XcToken'].includes(token.squidImplementationDetail.isTypeOf))
+  const deletedTokensMap = Object.fromEntries(existingTokens.map((token) => [token.id, token]))
+
+  for (const asset of assets) {
+    if (xcAssetIds.has(asset.assetId)) {
+      const token = await getOrCreateToken(store, XcToken, xcTokenId(chain.id, asset.assetId, asset.symbol))
+      delete deletedTokensMap[token.id]
+
+      token.symbol = asset.symbol
+      token.decimals = asset.decimals
+      token.assetId = asset.assetId
+      token.contractAddress = xcAssetContractAddress(asset.assetId)
+      token.chain = chain.id
+
+      await saveToken(store, token)
+      continue
+    }
+
+    const token = await getOrCreateToken(store, AssetsToken, assetsTokenId(chain.id, asset.assetId, asset.symbol))
+    delete deletedTokensMap[token.id]
+
+    token.symbol = asset.symbol
+    token.decimals = asset.decimals
+    token.assetId = asset.assetId
+    token.minBalance = BigInt(asset.minBalance)
+    token.isSufficient = asset.isSufficient
+    token.chain = chain.id
+
+    await saveToken(store, token)
+  }
+  for (const deletedToken of Object.values(deletedTokensMap)) {
+    await store.remove(deletedToken)
+  }
+}
+
+/**
+ * Creates / updates a token for each crowdloan lease of `chain` which has a `CurrencyId::LiquidCrowdloan(leaseId)`
+ * token with issuance, and removes the tokens of any leases which no longer have issuance.
+ *
+ * Liquid crowdloan tokens are named after, and have the same decimals as, the native token of the relay chain.
+ * So they are left untouched until `chain` has been matched up with its relay chain.
+ */
+async function updateLiquidCrowdloanTokens(
+  store: EntityManager,
+  log: Logger,
+  socket: WsProvider,
+  chain: Chain,
+  liquidCrowdloanCurrencyIdIndex: number
+) {
+  const relay = chain.relay
+    ? await store.findOne(Chain, { where: { id: chain.relay.id }, loadRelationIds: { disableMixedMap: true } })
+    : null
+  const relayNativeTokenId = relay?.nativeToken?.id
+  const relayNativeToken = relayNativeTokenId
+    ? (await getOrCreate(store, Token, relayNativeTokenId)).squidImplementationDetail
+    : null
+  if (!relayNativeToken?.symbol) return log.debug(`${chain.id} has no relay native token, skipping liquid crowdloans`)
+
+  let leaseIds
+  try {
+    leaseIds = await fetchLiquidCrowdloanLeaseIds(socket, liquidCrowdloanCurrencyIdIndex, chainRpcTimeout)
+  } catch (error) {
+    return log.warn(`${chain.id} failed to fetch liquid crowdloan tokens ${JSON.stringify(error)}`)
+  }
+
+  const existingTokens = (
+    await store.find(Token, {
+      where: { squidImplementationDetailChain: { id: chain.id } },
+      loadRelationIds: { disableMixedMap: true },
+    })
+  ).filter((token) => token.squidImplementationDetail.isTypeOf === 'LiquidCrowdloanToken')
+  const deletedTokensMap = Object.fromEntries(existingTokens.map((token) => [token.id, token]))
+
+  const symbol = `LC${relayNativeToken.symbol}`
+  for (const leaseId of leaseIds) {
+    const token = await getOrCreateToken(store, LiquidCrowdloanToken, liquidCrowdloanTokenId(chain.id, leaseId, symbol))
+    delete deletedTokensMap[token.id]
+
+    token.symbol = symbol
+    token.decimals = relayNativeToken.decimals
+    token.stateKey = liquidCrowdloanStateKey(liquidCrowdloanCurrencyIdIndex, leaseId)
+    token.chain = chain.id
+
+    await saveToken(store, token)
+  }
+  for (const deletedToken of Object.values(deletedTokensMap)) {
+    await store.remove(deletedToken)
+  }
+}
+
+/**
+ * Creates / updates a token for each enabled trading pair of the acala dex pallet on `chain`,
+ * and removes the tokens of any trading pairs which are no longer enabled.
+ *
+ * Liquidity provider tokens are named after, and have the same decimals as, the first token in their pool.
+ * So this should run after the orml and liquid crowdloan tokens of `chain` have been updated.
+ */
+async function updateLiquidityProviderTokens(
+  store: EntityManager,
+  log: Logger,
+  socket: WsProvider,
+  chain: Chain,
+  metadata: Metadata
+) {
+  let tradingPairs
+  try {
+    tradingPairs = await fetchEnabledTradingPairs(socket, metadata, chainRpcTimeout)
+  } catch (error) {
+    return log.warn(`${chain.id} failed to fetch dex trading pairs ${JSON.stringify(error)}`)
+  }
+
+  const chainTokens = await store.find(Token, {
+    where: { squidImplementationDetailChain: { id: chain.id } },
+    loadRelationIds: { disableMixedMap: true },
+  })
+  const tokensByStateKey = Object.fromEntries(
+    chainTokens
+      .map(({ squidImplementationDetail }) => squidImplementationDetail)
+      .filter(
+        (token): token is OrmlToken | LiquidCrowdloanToken =>
+          token.isTypeOf === 'OrmlToken' || token.isTypeOf === 'LiquidCrowdloanToken'
+      )
+      .map((token) => [token.stateKey, token])
+  )
+  const existingTokens = chainTokens.filter(
+    (token) => token.squidImplementationDetail.isTypeOf === 'LiquidityProviderToken'
+  )
+  const deletedTokensMap = Object.fromEntries(existingTokens.map((token) => [token.id, token]))
+
+  const pairs = tradingPairs.flatMap(({ currencyIds, stateKey }) => {
+    const [token0, token1] = currencyIds.map((currencyId) => tokensByStateKey[twox64Concat(currencyId.toU8a())])
+    if (!token0?.symbol || !token1?.symbol) {
+      const currencies = currencyIds.map((currencyId) => JSON.stringify(currencyId.toJSON())).join(', ')
+      log.debug(`${chain.id} skipping dex trading pair of unknown tokens ${currencies}`)
+      return []
+    }
+
+    return [{ currencyIds, stateKey, token0, token1, pairSymbol: `${token0.symbol}-${token1.symbol}` }]
+  })
+
+  // pairs of tokens which share their symbols with other tokens (e.g. Token(KUSD) and a foreign asset KUSD) can have
+  // the same pair symbol, so the ids of those pairs include the stateKey of their DexShare token
+  const pairSymbolCounts = countBy(pairs, 'pairSymbol')
+  const savedTokenIds = new Set<string>()
+  for (const { currencyIds, stateKey, token0, pairSymbol } of pairs) {
+    const tokenId = liquidityProviderTokenId(chain.id, pairSymbol, pairSymbolCounts[pairSymbol] > 1 ? stateKey : null)
+    const token = await getOrCreateToken(store, LiquidityProviderToken, tokenId)
+    if (savedTokenIds.has(token.id)) {
+      log.warn(`${chain.id} skipping dex trading pair ${stateKey}, id ${token.id} is already in use`)
+      continue
+    }
+    savedTokenIds.add(token.id)
+    delete deletedTokensMap[token.id]
+
+    token.symbol = `LP ${pairSymbol}`
+    token.decimals = token0.decimals
+    token.stateKey = stateKey
+    token.currencyId0 = JSON.stringify(currencyIds[0].toJSON())
+    token.currencyId1 = JSON.stringify(currencyIds[1].toJSON())
+    token.chain = chain.id
+
+    await saveToken(store, token)
+  }
+  for (const deletedToken of Object.values(deletedTokensMap)) {
+    await store.remove(deletedToken)
+  }
+}
@@ -0,0 +1,93 @@
+import { SubstrateRpc } from './model'
+import { markInconsistentSubstrateRpcs } from './rpcHealth'
+
+describe('markInconsistentSubstrateRpcs', () => {
+  const polkadot = '0x91b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3'
+  const kusama = '0xb0a8d493285c2df73290dfb7e61f870f17b41801197a149ca93654499ea3dafe'
+
+  const healthyRpc = (url: string, blockNumber: number | null = 1000) =>
+    new SubstrateRpc({ url, isHealthy: true, blockNumber })
+
+  it('sets rpcs which serve a different genesis hash than the known one to unhealthy', () => {
+    const rpcs = [healthyRpc('wss://a'), healthyRpc('wss://b')]
+
+    const { genesisHash, inconsistentRpcs } = markInconsistentSubstrateRpcs(rpcs, [polkadot, kusama], polkadot, 20)
+
+    expect(genesisHash).toBe(polkadot)
+    expect(inconsistentRpcs).toEqual([rpcs[1]])
+    expect(rpcs.map(({ isHealthy }) => isHealthy)).toEqual([true, false])
+    expect(rpcs[1].unhealthyReason).toBe('wrong genesis hash')
+  })
+
+  it('goes with the genesis hash served by the most rpcs when none of the rpcs serve the known one', () => {
+    const rpcs = [healthyRpc('wss://a'), healthyRpc('wss://b'), healthyRpc('wss://c')]
+
+    const { genesisHash, inconsistentRpcs } = markInconsistentSubstrateRpcs(
+      rpcs,
+      [kusama, kusama, polkadot],
+      '0x00',
+      20
+    )
+
+    expect(genesisHash).toBe(kusama)
+    expect(inconsistentRpcs).toEqual([rpcs[2]])
+    expect(rpcs.map(({ isHealthy }) => isHealthy)).toEqual([true, true, false])
+  })
+
+  it('keeps the known genesis hash when a single rpc serves a different one and the other rpcs are down', () => {
+    const downRpc = (url: string) => new SubstrateRpc({ url, isHealthy: false, unhealthyReason: 'timeout' })
+    const rpcs = [downRpc('wss://a'), downRpc('wss://b'), healthyRpc('wss://c')]
+
+    const { genesisHash, inconsistentRpcs } = markInconsistentSubstrateRpcs(rpcs, [null, null, kusama], polkadot, 20)
+
+    expect(genesisHash).toBe(polkadot)
+    expect(inconsistentRpcs).toEqual([rpcs[2]])
+    expect(rpcs[2].unhealthyReason).toBe('wrong genesis hash')
+  })
+
+  it('keeps the known genesis hash when most of the rpcs serve a different chain', () => {
+    const rpcs = [healthyRpc('wss://a'), healthyRpc('wss://b'), healthyRpc('wss://c')]
+
+    markInconsistentSubstrateRpcs(rpcs, [polkadot, kusama, kusama], polkadot, 20)
+
+    expect(rpcs.map(({ isHealthy }) => isHealthy)).toEqual([true, false, false])
+  })
+
+  it('goes with the genesis hash served by the most rpcs when the genesis hash is not known yet', () => {
+    const rpcs = [healthyRpc('wss://a'), healthyRpc('wss://b'), healthyRpc('wss://c')]
+
+    expect(markInconsistentSubstrateRpcs(rpcs, [kusama, polkadot, polkadot], null, 20).genesisHash).toBe(polkadot)
+    expect(rpcs.map(({ isHealthy }) => isHealthy)).toEqual([false, true, true])
+  })
+
+  it('leaves rpcs which are already unhealthy alone', () => {
+    const downRpc = new SubstrateRpc({ url: 'wss://down', isHealthy: false, unhealthyReason: 'timeout' })
+
+    const { inconsistentRpcs } = markInconsistentSubstrateRpcs(
+      [downRpc, healthyRpc('wss://a')],
+      [null, polkadot],
+      polkadot,
+      20
+    )
+
+    expect(inconsistentRpcs).toEqual([])
+    expect(downRpc.unhealthyReason).toBe('timeout')
+  })
+
+  it('sets rpcs which lag too far behind the best block to unhealthy', () => {
+    const rpcs = [healthyRpc('wss://a', 1000), healthyRpc('wss://b', 980), healthyRpc('wss://c', 979)]
+
+    const { inconsistentRpcs } = markInconsistentSubstrateRpcs(rpcs, [polkadot, polkadot, polkadot], polkadot, 20)
+
+    expect(inconsistentRpcs).toEqual([rpcs[2]])
+    expect(rpcs[2].unhealthyReason).toBe('lagging 21 blocks behind')
+  })
+
+  it('ignores the block numbers of rpcs which serve a different chain', () => {
+    const rpcs = [healthyRpc('wss://a', 1000), healthyRpc('wss://b', 5_000_000)]
+
+    markInconsistentSubstrateRpcs(rpcs, [polkadot, kusama], polkadot, 20)
+
+    expect(rpcs[0].isHealthy).toBe(true)
+  })
+})
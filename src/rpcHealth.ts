@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto'
+
+import { countBy } from 'lodash'
+import { EntityManager, LessThan } from 'typeorm'
+
+import { EthereumRpc, RpcHealthCheck, SubstrateRpc } from './model'
+
+// rpcs are identified by the substrate chain or the evm network they belong to, plus their url
+export type RpcOwner = { chainId: string } | { evmNetworkId: string }
+
+const uptimeWindows = {
+  uptime1h: 3_600_000, // 3_600_000ms = 1 hour
+  uptime24h: 86_400_000, // 86_400_000ms = 24 hours
+  uptime7d: 604_800_000, // 604_800_000ms = 7 days
+}
+
+// health checks older than the longest uptime window are no longer needed
+const rpcHealthCheckRetentionMs = Math.max(...Object.values(uptimeWindows))
+
+/**
+ * Saves the current health status of `rpcs` to their health check history,
+ * then sets the rolling uptimes of `rpcs` based on that history.
+ */
+export async function recordRpcHealth(store: EntityManager, owner: RpcOwner, rpcs: Array<SubstrateRpc | EthereumRpc>) {
+  if (rpcs.length < 1) return
+
+  const chainId = 'chainId' in owner ? owner.chainId : null
+  const evmNetworkId = 'evmNetworkId' in owner ? owner.evmNetworkId : null
+
+  await store.save(
+    rpcs.map(
+      (rpc) =>
+        new RpcHealthCheck({
+          id: randomUUID(),
+          chainId,
+          evmNetworkId,
+          url: rpc.url,
+          checkedAt: rpc.lastCheckedAt || new Date(),
+          isHealthy: rpc.isHealthy,
+          unhealthyReason: rpc.unhealthyReason,
+          latencyMs: rpc.latencyMs,
+          blockNumber: rpc.blockNumber,
+        })
+    )
+  )
+
+  const now = Date.now()
+  const uptimeFields = Object.keys(uptimeWindows) as Array<keyof typeof uptimeWindows>
+  const uptimeSelects = uptimeFields.map((field, index) => {
+    // $1 and $2 are used by the WHERE clause, the start of each uptime window is passed in from $3 onwards
+    const windowStartParam = `$${index + 3}`
+    return `(AVG(CASE WHEN "is_healthy" THEN 100.0 ELSE 0.0 END) FILTER (WHERE "checked_at" > ${windowStartParam}))::float8 AS "${field}"`
+  })
+  const uptimes: Array<{ url: string } & Record<keyof typeof uptimeWindows, number | null>> = await store.query(
+    `SELECT "url", ${uptimeSelects.join(', ')}
+      FROM "rpc_health_check"
+      WHERE ${chainId !== null ? '"chain_id"' : '"evm_network_id"'} = $1 AND "url" = ANY($2)
+      GROUP BY "url"`,
+    [
+      chainId ?? evmNetworkId,
+      rpcs.map(({ url }) => url),
+      ...uptimeFields.map((field) => new Date(now - uptimeWindows[field])),
+    ]
+  )
+  const uptimesByUrl = Object.fromEntries(uptimes.map((uptime) => [uptime.url, uptime]))
+
+  for (const rpc of rpcs) {
+    for (const field of uptimeFields) rpc[field] = uptimesByUrl[rpc.url]?.[field] ?? null
+  }
+}
+
+/**
+ * Sets the healthy rpcs of a substrate chain to unhealthy when they serve a different chain (i.e. they have a
+ * different genesis hash), or when their latest block lags too far behind the other rpcs.
+ *
+ * When we already know the genesis hash of the chain, every rpc which serves a different genesis hash is set to
+ * unhealthy, no matter how many rpcs serve it. Unless none of the rpcs serve the known genesis hash anymore
+ * (e.g. a testnet has been reset) and a majority of all of the chain's rpcs (at least 2) serve the same new one,
+ * in which case the new genesis hash wins. When the genesis hash isn't known yet, the one served by the most rpcs wins.
+ *
+ * `genesisHashes` holds the genesis hash reported by each rpc, at the same index as the rpc in `rpcs`.
+ * Returns the genesis hash which the rpcs were compared against (null when no healthy rpc reported one),
+ * and the rpcs which were set to unhealthy.
+ */
+export function markInconsistentSubstrateRpcs(
+  rpcs: SubstrateRpc[],
+  genesisHashes: Array<string | null>,
+  knownGenesisHash: string | undefined | null,
+  maxBlockLag: number
+): { genesisHash: string | null; inconsistentRpcs: SubstrateRpc[] } {
+  const inconsistentRpcs: SubstrateRpc[] = []
+
+  const healthyRpcs = rpcs
+    .map((rpc, index) => ({ rpc, genesisHash: genesisHashes[index] }))
+    .filter((item): item is { rpc: SubstrateRpc; genesisHash: string } => item.rpc.isHealthy && !!item.genesisHash)
+  if (healthyRpcs.length < 1) return { genesisHash: null, inconsistentRpcs }
+
+  const genesisHashCounts = countBy(healthyRpcs, 'genesisHash')
+  const [mostServedGenesisHash] = Object.keys(genesisHashCounts).sort(
+    (a, b) => genesisHashCounts[b] - genesisHashCounts[a]
+  )
+  const mostServedCount = genesisHashCounts[mostServedGenesisHash]
+  const isNewGenesisHash =
+    !knownGenesisHash ||
+    (genesisHashCounts[knownGenesisHash] === undefined && mostServedCount >= 2 && mostServedCount > rpcs.length / 2)
+  const genesisHash = isNewGenesisHash ? mostServedGenesisHash : knownGenesisHash
+
+  for (const { rpc } of healthyRpcs.filter((item) => item.genesisHash !== genesisHash)) {
+    rpc.isHealthy = false
+    rpc.unhealthyReason = 'wrong genesis hash'
+    inconsistentRpcs.push(rpc)
+  }
+
+  const blockNumbers = healthyRpcs
+    .map(({ rpc }) => rpc)
+    .filter(({ isHealthy }) => isHealthy)
+    .map(({ blockNumber }) => blockNumber)
+    .filter((blockNumber): blockNumber is number => typeof blockNumber === 'number')
+  if (blockNumbers.length < 1) return { genesisHash, inconsistentRpcs }
+
+  const bestBlockNumber = Math.max(...blockNumbers)
+  for (const { rpc } of healthyRpcs) {
+    if (!rpc.isHealthy || typeof rpc.blockNumber !== 'number') continue
+
+    const lag = bestBlockNumber - rpc.blockNumber
+    if (lag <= maxBlockLag) continue
+
+    rpc.isHealthy = false
+    rpc.unhealthyReason = `lagging ${lag} blocks behind`
+    inconsistentRpcs.push(rpc)
+  }
+
+  return { genesisHash, inconsistentRpcs }
+}
+
+export async function deleteStaleRpcHealthChecks(store: EntityManager) {
+  await store.delete(RpcHealthCheck, { checkedAt: LessThan(new Date(Date.now() - rpcHealthCheckRetentionMs)) })
+}
@@ -0,0 +1,85 @@
+import { blake2AsHex } from '@polkadot/util-crypto'
+import { EntityManager, In } from 'typeorm'
+
+import { Chain, ChainRuntimeVersion, RuntimeMetadata } from './model'
+
+// the response of the `state_getRuntimeVersion` rpc
+export type RuntimeVersion = {
+  specName: string
+  specVersion: number
+  implName?: string
+  implVersion?: number
+  transactionVersion?: number
+}
+
+/**
+ * Adds `runtimeVersion` and its metadata to the runtime version history of `chain`, unless it's already in there.
+ *
+ * A runtime version which is already in there has its genesis hash and metadata replaced when they've changed,
+ * e.g. when a testnet has been reset and starts over with the same spec version.
+ * Returns true when `runtimeVersion` is new.
+ */
+export async function recordRuntimeVersion(
+  store: EntityManager,
+  chain: Chain,
+  runtimeVersion: RuntimeVersion,
+  metadataRpc: string
+): Promise<boolean> {
+  const id = `${chain.id}-${runtimeVersion.specVersion}`
+  const existing = await store.findOne(ChainRuntimeVersion, {
+    where: { id },
+    loadRelationIds: { disableMixedMap: true },
+  })
+  const metadataHash = blake2AsHex(metadataRpc)
+  if (existing?.metadata?.id === metadataHash && existing.genesisHash === chain.genesisHash) return false
+
+  // runtime versions which were recorded before we started to keep metadata get their metadata added here,
+  // metadata which is replaced is left in place, deleteChainRuntimeVersions deletes any metadata without a runtime version
+  const metadata = await saveRuntimeMetadata(store, metadataHash, metadataRpc)
+  await store.save(
+    Object.assign(existing ?? new ChainRuntimeVersion({ id, firstSeenAt: new Date() }), {
+      chain,
+      specName: runtimeVersion.specName,
+      specVersion: runtimeVersion.specVersion,
+      implName: runtimeVersion.implName ?? null,
+      implVersion: runtimeVersion.implVersion ?? null,
+      transactionVersion: runtimeVersion.transactionVersion ?? null,
+      genesisHash: chain.genesisHash,
+      metadataHash: metadata.id,
+      metadata,
+    })
+  )
+
+  return existing === null
+}
+
+/**
+ * Saves `metadataRpc`, unless it's already saved.
+ * Metadata is keyed by its hash, so runtime versions with the same metadata share a single copy of it.
+ */
+async function saveRuntimeMetadata(store: EntityManager, id: string, metadataRpc: string): Promise<RuntimeMetadata> {
+  // chains are updated concurrently, and chains which share a runtime (e.g. testnets) can record the same metadata
+  // at the same time, so we leave it to the database to skip metadata which has already been saved
+  await store
+    .createQueryBuilder()
+    .insert()
+    .into(RuntimeMetadata)
+    .values({ id, metadata: metadataRpc, firstSeenAt: new Date() })
+    .orIgnore()
+    .execute()
+
+  // the metadata itself is a few MB, so we don't return it
+  return new RuntimeMetadata({ id })
+}
+
+/**
+ * Deletes the runtime version history of `chainIds`, so that the chains themselves can be deleted.
+ * Also deletes any metadata which no longer belongs to a runtime version.
+ */
+export async function deleteChainRuntimeVersions(store: EntityManager, chainIds: string[]) {
+  await store.delete(ChainRuntimeVersion, { chain: { id: In(chainIds) } })
+  await store.query(
+    `DELETE FROM "runtime_metadata"
+      WHERE "id" NOT IN (SELECT "metadata_id" FROM "chain_runtime_version" WHERE "metadata_id" IS NOT NULL)`
+  )
+}
@@ -7,6 +7,22 @@ export type GithubChain = {
   rpcs?: string[]
   paraId?: number
   relay?: { id: string }
+  overrides?: GithubChainOverrides
+}
+
+// fixes for chains whose on-chain data doesn't tell us what we need to know about their tokens
+// each override takes precedence over the equivalent value from the chain's rpcs
+export type GithubChainOverrides = {
+  // replace `tokenSymbol` / `tokenDecimals` of the chain's `system_properties`, both or neither must be set
+  tokenSymbols?: string[]
+  tokenDecimals?: number[]
+  // replace the ss58 prefix of the chain's metadata / `system_properties`
+  ss58Prefix?: number
+  // the symbol of the chain's native token, defaults to the first of the chain's token symbols
+  nativeTokenSymbol?: string
+  // replace the orml tokens which are found in the chain's `TokenSymbol` metadata, keyed by token symbol
+  // each token is identified by its orml CurrencyId, which is encoded as `type` to get the token's stateKey
+  ormlTokens?: Record<string, { type: string; value: string | number }>
 }
 
 export type GithubEvmNetwork = {
@@ -26,8 +42,15 @@ export type GithubToken = {
   coingeckoId?: string | null
   contractAddress?: string
   evmNetworkId?: number
+  // erc20 only: symbol, decimals and name are fetched from the contract, unless they're overridden here
+  overrides?: { symbol?: string; decimals?: number; name?: string }
+  // take the rates of this token from another token (e.g. xcDOT from DOT), for tokens without a coingecko id
+  priceFrom?: PriceAlias
 }
 
+// the rates of a token are the rates of the token with id `tokenId`, multiplied by `multiplier` (defaults to 1)
+export type PriceAlias = { tokenId: string; multiplier?: number }
+
 // Some handy types from https://www.typescriptlang.org/docs/handbook/advanced-types.html#distributive-conditional-types
 export type FunctionPropertyNames<T> = {
   [K in keyof T]: T[K] extends Function ? K : never
@@ -0,0 +1,124 @@
+import { validateGithubChains, validateGithubEvmNetworks, validateGithubTokens } from './validation'
+
+describe('validateGithubChains', () => {
+  it('keeps valid chains as-is', () => {
+    const chain = { id: 'polkadot', name: 'Polkadot', rpcs: ['wss://rpc.polkadot.io'], paraId: null }
+
+    expect(validateGithubChains('chaindata.json', [chain])).toEqual({ valid: [chain], invalidIds: [], issues: [] })
+  })
+
+  it('skips chains with invalid fields and reports each invalid field', () => {
+    const result = validateGithubChains('chaindata.json', [
+      { id: 'polkadot' },
+      { id: 'kusama', rpcs: 'wss://kusama-rpc.polkadot.io', paraId: 1.5 },
+    ])
+
+    expect(result.valid).toEqual([{ id: 'polkadot' }])
+    expect(result.invalidIds).toEqual(['kusama'])
+    expect(result.issues).toEqual([
+      { file: 'chaindata.json', index: 1, id: 'kusama', field: 'rpcs', reason: 'expected array, got string' },
+      { file: 'chaindata.json', index: 1, id: 'kusama', field: 'paraId', reason: 'expected integer, got number' },
+    ])
+  })
+
+  it('reports entries which are not objects', () => {
+    const result = validateGithubChains('testnets-chaindata.json', [null, ['westend']])
+
+    expect(result.valid).toEqual([])
+    expect(result.invalidIds).toEqual([])
+    expect(result.issues).toEqual([
+      { file: 'testnets-chaindata.json', index: 0, reason: 'expected object, got null' },
+      { file: 'testnets-chaindata.json', index: 1, reason: 'expected object, got array' },
+    ])
+  })
+
+  it('reports the item of an array field which is invalid', () => {
+    const result = validateGithubChains('chaindata.json', [{ id: 'polkadot', rpcs: ['wss://rpc.polkadot.io', ''] }])
+
+    expect(result.issues).toEqual([
+      {
+        file: 'chaindata.json',
+        index: 0,
+        id: 'polkadot',
+        field: 'rpcs',
+        reason: 'item 1: expected non-empty string, got string',
+      },
+    ])
+  })
+
+  it('requires chain overrides of token symbols and token decimals to be set together', () => {
+    const result = validateGithubChains('chaindata.json', [
+      { id: 'gm', overrides: { tokenSymbols: ['FREN', 'GM', 'GN'], tokenDecimals: [18, 18, 18] } },
+      { id: 'mangata', overrides: { tokenSymbols: ['MGX'] } },
+    ])
+
+    expect(result.valid.map(({ id }) => id)).toEqual(['gm'])
+    expect(result.issues).toEqual([
+      {
+        file: 'chaindata.json',
+        index: 1,
+        id: 'mangata',
+        field: 'overrides',
+        reason: 'tokenSymbols and tokenDecimals must be set together',
+      },
+    ])
+  })
+
+  it('throws when the file is not an array', () => {
+    expect(() => validateGithubChains('chaindata.json', { polkadot: {} })).toThrow(
+      'Invalid chaindata file chaindata.json: expected array, got object'
+    )
+  })
+})
+
+describe('validateGithubEvmNetworks', () => {
+  it('identifies evm networks by their substrate chain id, or by their name', () => {
+    const result = validateGithubEvmNetworks('evm-networks.json', [
+      { substrateChainId: 'moonbeam', decimals: '18' },
+      { name: 'Ethereum', isTestnet: 'no' },
+    ])
+
+    expect(result.issues.map(({ id, field }) => [id, field])).toEqual([
+      ['moonbeam', 'decimals'],
+      ['Ethereum', 'isTestnet'],
+    ])
+    expect(result.invalidIds).toEqual(['moonbeam', 'Ethereum'])
+  })
+})
+
+describe('validateGithubTokens', () => {
+  it('identifies erc20 tokens without an id by their evm network and contract address', () => {
+    const result = validateGithubTokens('tokens.json', [
+      { contractAddress: '0xABCD', evmNetworkId: 1284, decimals: 'eighteen' },
+    ])
+
+    expect(result.issues).toEqual([
+      {
+        file: 'tokens.json',
+        index: 0,
+        id: '1284-erc20-0xabcd',
+        field: 'decimals',
+        reason: 'expected integer, got string',
+      },
+    ])
+  })
+
+  it('validates erc20 overrides', () => {
+    const result = validateGithubTokens('tokens.json', [
+      { contractAddress: '0xabcd', evmNetworkId: 1284, overrides: { symbol: 'USDC', decimals: 6 } },
+      { contractAddress: '0xef01', evmNetworkId: 1284, overrides: { symbol: 42 } },
+    ])
+
+    expect(result.valid).toHaveLength(1)
+    expect(result.invalidIds).toEqual(['1284-erc20-0xef01'])
+    expect(result.issues).toEqual([
+      {
+        file: 'tokens.json',
+        index: 1,
+        id: '1284-erc20-0xef01',
+        field: 'overrides',
+        reason: 'symbol: expected non-empty string, got number',
+      },
+    ])
+  })
+})
@@ -0,0 +1,197 @@
+import { ChaindataFile } from './chaindata'
+import { errorMessage, githubTokenId, ormlStateKey } from './helpers'
+import { GithubChain, GithubChainOverrides, GithubEvmNetwork, GithubToken } from './types'
+
+export type ChaindataIssue = {
+  file: ChaindataFile
+  index: number
+  id?: string
+  field?: string
+  reason: string
+}
+
+export type ValidationResult<T> = {
+  valid: T[]
+  // the ids of the invalid entries, so that their stored entities aren't deleted as if they were removed from chaindata
+  invalidIds: string[]
+  issues: ChaindataIssue[]
+}
+
+// a field validator returns a reason when the value is invalid, or undefined when it is valid
+type FieldValidator = (value: unknown) => string | undefined
+type Schema = Record<string, FieldValidator>
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value)
+
+const isString: FieldValidator = (value) =>
+  typeof value === 'string' && value.length > 0 ? undefined : `expected non-empty string, got ${describe(value)}`
+const isInteger: FieldValidator = (value) =>
+  Number.isInteger(value) ? undefined : `expected integer, got ${describe(value)}`
+const isPositiveNumber: FieldValidator = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? undefined
+    : `expected positive number, got ${describe(value)}`
+const isBoolean: FieldValidator = (value) =>
+  typeof value === 'boolean' ? undefined : `expected boolean, got ${describe(value)}`
+const isArrayOf =
+  (validator: FieldValidator): FieldValidator =>
+  (value) => {
+    if (!Array.isArray(value)) return `expected array, got ${describe(value)}`
+    for (const [index, item] of value.entries()) {
+      const reason = validator(item)
+      if (reason !== undefined) return `item ${index}: ${reason}`
+    }
+  }
+const isObjectOf =
+  (schema: Schema): FieldValidator =>
+  (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value))
+      return `expected object, got ${describe(value)}`
+    for (const [field, validator] of Object.entries(schema)) {
+      const reason = validator((value as Record<string, unknown>)[field])
+      if (reason !== undefined) return `${field}: ${reason}`
+    }
+  }
+
+const isRecordOf =
+  (validator: FieldValidator): FieldValidator =>
+  (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value))
+      return `expected object, got ${describe(value)}`
+    for (const [key, item] of Object.entries(value)) {
+      const reason = validator(item)
+      if (reason !== undefined) return `${key}: ${reason}`
+    }
+  }
+const isAllOf =
+  (...validators: FieldValidator[]): FieldValidator =>
+  (value) => {
+    for (const validator of validators) {
+      const reason = validator(value)
+      if (reason !== undefined) return reason
+    }
+  }
+
+// missing (undefined) and null values are treated the same way by the processor steps
+const optional =
+  (validator: FieldValidator): FieldValidator =>
+  (value) =>
+    value === undefined || value === null ? undefined : validator(value)
+
+// an orml CurrencyId is valid when its value can be encoded as its type
+const isOrmlCurrencyId: FieldValidator = isAllOf(
+  isObjectOf({ type: isString, value: (value) => (value === undefined ? 'expected value' : undefined) }),
+  (value) => {
+    const { type, value: currencyId } = value as { type: string; value: unknown }
+    try {
+      ormlStateKey(type, currencyId)
+    } catch (error) {
+      return `can't encode ${JSON.stringify(currencyId)} as ${type}: ${errorMessage(error)}`
+    }
+  }
+)
+
+const isGithubChainOverrides: FieldValidator = isAllOf(
+  isObjectOf({
+    tokenSymbols: optional(isArrayOf(isString)),
+    tokenDecimals: optional(isArrayOf(isInteger)),
+    ss58Prefix: optional(isInteger),
+    nativeTokenSymbol: optional(isString),
+    ormlTokens: optional(isRecordOf(isOrmlCurrencyId)),
+  }),
+  (value) => {
+    const { tokenSymbols, tokenDecimals, nativeTokenSymbol } = value as GithubChainOverrides
+    // the decimals of each token are paired up with its symbol by position, so one can't be overridden without the other
+    if (Boolean(tokenSymbols) !== Boolean(tokenDecimals)) return `tokenSymbols and tokenDecimals must be set together`
+    if (tokenSymbols && tokenDecimals && tokenSymbols.length !== tokenDecimals.length)
+      return `tokenSymbols and tokenDecimals must have the same length`
+    if (tokenSymbols && nativeTokenSymbol && !tokenSymbols.includes(nativeTokenSymbol))
+      return `nativeTokenSymbol must be one of tokenSymbols`
+  }
+)
+
+const githubChainSchema: Schema = {
+  id: isString,
+  isTestnet: optional(isBoolean),
+  name: optional(isString),
+  account: optional(isString),
+  subscanUrl: optional(isString),
+  rpcs: optional(isArrayOf(isString)),
+  paraId: optional(isInteger),
+  relay: optional(isObjectOf({ id: isString })),
+  overrides: optional(isGithubChainOverrides),
+}
+
+const githubEvmNetworkSchema: Schema = {
+  substrateChainId: optional(isString),
+  name: optional(isString),
+  symbol: optional(isString),
+  decimals: optional(isInteger),
+  isTestnet: optional(isBoolean),
+  explorerUrl: optional(isString),
+  rpcs: optional(isArrayOf(isString)),
+}
+
+const githubTokenSchema: Schema = {
+  id: optional(isString),
+  symbol: optional(isString),
+  decimals: optional(isInteger),
+  coingeckoId: optional(isString),
+  contractAddress: optional(isString),
+  evmNetworkId: optional(isInteger),
+  overrides: optional(
+    isObjectOf({ symbol: optional(isString), decimals: optional(isInteger), name: optional(isString) })
+  ),
+  priceFrom: optional(isObjectOf({ tokenId: isString, multiplier: optional(isPositiveNumber) })),
+}
+
+/**
+ * Checks each entry of a chaindata file against `schema`.
+ * Invalid entries are dropped and reported as issues, valid entries are returned as-is.
+ * The ids of invalid entries (where they have one) are returned as well.
+ *
+ * Throws if the file itself is not an array, because in that case we can't tell which entries are missing.
+ */
+function validateEntries<T>(
+  file: ChaindataFile,
+  data: unknown,
+  schema: Schema,
+  getId: (entry: Record<string, unknown>) => unknown
+): ValidationResult<T> {
+  if (!Array.isArray(data)) throw new Error(`Invalid chaindata file ${file}: expected array, got ${describe(data)}`)
+
+  const result: ValidationResult<T> = { valid: [], invalidIds: [], issues: [] }
+  for (const [index, entry] of data.entries()) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      result.issues.push({ file, index, reason: `expected object, got ${describe(entry)}` })
+      continue
+    }
+
+    const entryId = getId(entry)
+    const id = typeof entryId === 'string' ? entryId : undefined
+    const entryIssues = Object.entries(schema).flatMap(([field, validator]) => {
+      const reason = validator(entry[field])
+      return reason === undefined ? [] : [{ file, index, id, field, reason }]
+    })
+
+    if (entryIssues.length < 1) {
+      result.valid.push(entry as T)
+      continue
+    }
+    result.issues.push(...entryIssues)
+    if (id !== undefined) result.invalidIds.push(id)
+  }
+
+  return result
+}
+
+export const validateGithubChains = (file: ChaindataFile, data: unknown) =>
+  validateEntries<GithubChain>(file, data, githubChainSchema, (chain) => chain.id)
+
+export const validateGithubEvmNetworks = (file: ChaindataFile, data: unknown) =>
+  validateEntries<GithubEvmNetwork>(file, data, githubEvmNetworkSchema, (evmNetwork) =>
+    typeof evmNetwork.substrateChainId === 'string' ? evmNetwork.substrateChainId : evmNetwork.name
+  )
+
+export const validateGithubTokens = (file: ChaindataFile, data: unknown) =>
+  validateEntries<GithubToken>(file, data, githubTokenSchema, (token) => githubTokenId(token as GithubToken))